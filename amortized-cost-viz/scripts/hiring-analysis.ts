@@ -0,0 +1,167 @@
+// Hiring analysis tables from the command line
+// Uses the same cost model and level registry as the web app (src/lib)
+// Usage: npm run analysis -- <fees|durations|optimum|amortize> [options]
+// Example: npm run analysis -- fees --level 4 --spacing 500 --format markdown
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  AnalysisTable,
+  TABLE_FORMATS,
+  TableFormat,
+  amortizationTable,
+  formatTable,
+  maxFeeTable,
+  optimumTable,
+  targetDurationTable,
+} from '../src/lib/analysis-tables'
+import {
+  DEFAULT_GROWTH_MODEL,
+  HiringCostData,
+  INITIAL_HIRING_DATA,
+  OPTIMIZATION_HORIZON,
+  STAFF_LEVELS,
+  generateHiringFormula,
+} from '../src/lib/cost-model'
+import { levelDefinition } from '../src/lib/levels'
+import { importMarketData } from '../src/lib/market-data-io'
+import { autoTargetCosts } from '../src/lib/target-costs'
+
+type Command = 'fees' | 'durations' | 'optimum' | 'amortize'
+
+const COMMANDS: { [command in Command]: string } = {
+  fees: 'Max hiring fee per salary for each target weekly cost',
+  durations: 'Optimal week per salary at each target\'s max hiring fee',
+  optimum: 'Market hiring fee, optimal week and optimal weekly cost per salary',
+  amortize: 'Week-by-week salary, cumulative and amortized cost of one hire',
+}
+
+const USAGE = `Usage: npm run analysis -- <command> [options]
+
+Commands:
+${Object.entries(COMMANDS).map(([command, description]) => `  ${command.padEnd(10)} ${description}`).join('\n')}
+
+Options:
+  -l, --level <n>          Staff level (default 4)
+      --min <salary>       Lowest salary (default: the level registry's range)
+      --max <salary>       Highest salary (default: the level registry's range)
+  -s, --spacing <$>        Salary step between rows (default: the level's sweep step)
+  -t, --targets <list>     Comma-separated target weekly costs for fees and durations
+                           (default: the level registry's, else generated from the market data)
+  -m, --market-data <file> Hiring fees exported from the app as .json or .csv
+                           (default: the built-in market data)
+      --salary <$>         Starting salary for amortize
+  -w, --weeks <n>          Weeks shown by amortize (default 104) or searched by optimum
+                           (default ${OPTIMIZATION_HORIZON})
+  -f, --format <format>    ${TABLE_FORMATS.join(', ')} (default csv)
+  -o, --output <file>      Write to a file instead of stdout
+  -h, --help               Show this help`
+
+function fail(message: string): never {
+  console.error(`Error: ${message}\nRun with --help for usage.`)
+  process.exit(1)
+}
+
+// Parses a flag that must be a positive number, or returns `fallback` when absent
+function numberOption(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed <= 0) fail(`--${name} must be a positive number, got "${value}"`)
+  return parsed
+}
+
+function readMarketData(file: string | undefined): HiringCostData {
+  if (file === undefined) return INITIAL_HIRING_DATA
+
+  let text: string
+  try {
+    text = fs.readFileSync(file, 'utf8')
+  } catch {
+    fail(`cannot read market data file ${file}`)
+  }
+
+  const result = importMarketData(text, path.extname(file).toLowerCase() === '.csv' ? 'csv' : 'json')
+  if (!result.data) fail(`invalid market data in ${file}:\n  ${result.errors.join('\n  ')}`)
+  return result.data
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    level: { type: 'string', short: 'l' },
+    min: { type: 'string' },
+    max: { type: 'string' },
+    spacing: { type: 'string', short: 's' },
+    targets: { type: 'string', short: 't' },
+    'market-data': { type: 'string', short: 'm' },
+    salary: { type: 'string' },
+    weeks: { type: 'string', short: 'w' },
+    format: { type: 'string', short: 'f' },
+    output: { type: 'string', short: 'o' },
+    help: { type: 'boolean', short: 'h' },
+  },
+})
+
+if (values.help) {
+  console.log(USAGE)
+  process.exit(0)
+}
+
+const command = positionals[0] as Command | undefined
+if (!command || !(command in COMMANDS)) fail(command ? `unknown command "${command}"` : 'missing command')
+
+const level = numberOption('level', values.level, 4)
+if (!STAFF_LEVELS.includes(level)) fail(`--level must be one of ${STAFF_LEVELS.join(', ')}`)
+
+const format = (values.format ?? 'csv') as TableFormat
+if (!TABLE_FORMATS.includes(format)) fail(`--format must be one of ${TABLE_FORMATS.join(', ')}`)
+
+const definition = levelDefinition(level)
+const range = {
+  min: numberOption('min', values.min, definition.salaryRange.min),
+  max: numberOption('max', values.max, definition.salaryRange.max),
+}
+if (range.min > range.max) fail('--min must not exceed --max')
+const spacing = numberOption('spacing', values.spacing, definition.sweepStep)
+
+const formula = generateHiringFormula(readMarketData(values['market-data']))
+
+function targetCosts(): number[] {
+  if (values.targets !== undefined) {
+    const targets = values.targets.split(',').map(Number)
+    if (targets.some(target => !Number.isFinite(target) || target <= 0)) fail('--targets must be positive numbers separated by commas')
+    return targets
+  }
+  if (definition.targetCosts.length > 0) return definition.targetCosts
+
+  const generated = formula.parameters[level] ? autoTargetCosts(range, level, formula, DEFAULT_GROWTH_MODEL, spacing) : []
+  if (generated.length === 0) fail(`level ${level} has no default targets and no market data to generate them from; pass --targets`)
+  return generated
+}
+
+function buildTable(command: Command): AnalysisTable {
+  switch (command) {
+    case 'fees':
+      return maxFeeTable(range, spacing, level, targetCosts())
+    case 'durations':
+      return targetDurationTable(range, spacing, level, targetCosts())
+    case 'optimum':
+      return optimumTable(range, spacing, level, formula, numberOption('weeks', values.weeks, OPTIMIZATION_HORIZON))
+    case 'amortize': {
+      if (values.salary === undefined) fail('amortize needs --salary')
+      const salary = numberOption('salary', values.salary, 0)
+      return amortizationTable(salary, level, formula, Math.round(numberOption('weeks', values.weeks, 104)))
+    }
+  }
+}
+
+const output = formatTable(buildTable(command), format) + '\n'
+
+if (values.output) {
+  fs.mkdirSync(path.dirname(values.output), { recursive: true })
+  fs.writeFileSync(values.output, output)
+  console.log(`Created: ${values.output}`)
+} else {
+  process.stdout.write(output)
+}
@@ -1,5 +1,5 @@
 import { useMemo, useState } from "react"
-import { CartesianGrid, Line, LineChart, XAxis, YAxis, ReferenceDot } from "recharts"
+import { Area, Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis, ReferenceDot, ReferenceLine } from "recharts"
 import {
   Card,
   CardContent,
@@ -13,41 +13,59 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart"
-import { Button } from "@/components/ui/button"
+import { GrowthModelDialog } from "@/components/GrowthModelDialog"
+import { DataQualityBadge } from "@/components/DataQualityBadge"
+import { HiringCostDialog } from "@/components/HiringCostDialog"
+import { LevelRegistryDialog } from "@/components/LevelRegistryDialog"
+import { LevelSelect } from "@/components/LevelSelect"
+import { LevelToggles } from "@/components/LevelToggles"
+import { SeasonCalendarDialog } from "@/components/SeasonCalendarDialog"
+import { RoleSelect } from "@/components/RoleSelect"
+import { ScenarioPanel } from "@/components/ScenarioPanel"
+import { SensitivityPanel } from "@/components/SensitivityPanel"
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog"
-import { Edit } from "lucide-react"
-
-interface AmortizedCostParams {
-  startingSalary: number
-  level: number
-  maxWeeks: number
-}
-
-interface HiringCostData {
-  [level: number]: {
-    [salary: number]: number | null
-  }
-}
-
-interface HiringCostFormula {
-  type: 'interpolated' | 'manual'
-  formula: string
-  parameters: { [level: number]: { points: Array<{salary: number, cost: number}> } }
-  rSquared?: number
-}
+  OPTIMIZATION_HORIZON,
+  STAFF_LEVELS,
+  amortizedCostForFee,
+  calculateAmortizedCost,
+  describeGrowthModel,
+  describeNoMinimum,
+  generateHiringFormula,
+  growthFactor,
+  hiringCost,
+  maintenanceCost,
+  solveAmortizedCostMinimum,
+  solveOptimalDuration,
+  weeklySalary,
+  withoutDiscount,
+} from "@/lib/cost-model"
+import { describeCrossover, findCrossovers } from "@/lib/crossovers"
+import { lintLevel } from "@/lib/market-data-lint"
+import { roleSalaryRange } from "@/lib/roles"
+import { ScenarioResult, evaluateScenario } from "@/lib/scenarios"
+import {
+  addWeeks,
+  currentSeasonWeek,
+  describeUntil,
+  formatSeasonWeek,
+  normalizeSeasonWeek,
+  seasonBoundaries,
+} from "@/lib/season-calendar"
+import { useChartMarketData } from "@/hooks/use-market-data"
+import { useScenarios } from "@/hooks/use-scenarios"
+import { AmortizedCostParams, AmortizedCostSearch, ParamsChangeOptions } from "@/lib/search-params"
+import { hasFeeUncertainty, optimalWeekDistribution, percentiles, sampleFeeCurves } from "@/lib/uncertainty"
 
 interface ChartDataPoint {
   week: number
   amortizedCost: number
   cumulativeCost: number
   weeklyMaintenance: number
+  undiscountedCost?: number // Shown next to the discounted cost
+  amortizedBand?: [number, number] // 5th-95th percentile under fee uncertainty
+  amortizedIqr?: [number, number] // 25th-75th percentile
+  [levelKey: `level${number}`]: number // Amortized cost of each compared level
+  [scenarioKey: `scenario${number}`]: number // Amortized cost of each overlaid scenario
 }
 
 const chartConfig = {
@@ -63,238 +81,199 @@ const chartConfig = {
     label: "Weekly Maintenance",
     color: "var(--chart-3)",
   },
+  undiscountedCost: {
+    label: "Undiscounted Cost",
+    color: "var(--chart-4)",
+  },
+  amortizedBand: {
+    label: "90% band",
+    color: "var(--chart-1)",
+  },
+  amortizedIqr: {
+    label: "50% band",
+    color: "var(--chart-1)",
+  },
+  count: {
+    label: "Samples",
+    color: "var(--chart-2)",
+  },
 } satisfies ChartConfig
 
-// Growth factor function: g(ell) = (ell-1) * 0.25%
-// Level 1 (minimal): 1%, Level 2 (basic): 1.25%, Level 3 (competent): 1.5%, 
-// Level 4 (advanced): 1.75%, Level 5 (superior): 2%, Level 6 (exceptional): 2.25%, Level 7 (world-renowned): 2.5%
-function growthFactor(level: number): number {
-  return 0.01 + (level - 1) * 0.0025 // 1% base + 0.25% per level above 1
-}
+const colors = ["--chart-1", "--chart-2", "--chart-3", "--chart-4", "--chart-5"]
 
-// Market data from your observations
-const INITIAL_HIRING_DATA: HiringCostData = {
-  3: {
-    6000: 30000,
-    7000: 10000,
-    8000: 1000,
-    9000: 1000,
-    10000: 1000,
-    11000: 1000,
-    12000: 1000,
-  },
-  4: {
-    9000: 40000,
-    10000: 20000,
-    11000: 5000,
-    12000: 1000,
-    13000: 1000,
-    14000: 1000,
-  }
+function formatChartValue(value: unknown): string {
+  return Array.isArray(value)
+    ? `$${Math.round(value[0]).toLocaleString()} – $${Math.round(value[1]).toLocaleString()}`
+    : `$${Number(value).toLocaleString()}`
 }
 
-// Linear interpolation with logical extrapolation
-function interpolateHiringCost(salary: number, points: Array<{salary: number, cost: number}>): number | null {
-  if (points.length === 0) return null
-  if (points.length === 1) return points[0].cost
-  
-  // Sort points by salary
-  const sortedPoints = [...points].sort((a, b) => a.salary - b.salary)
-  
-  // Check if salary is exactly at a data point
-  const exactMatch = sortedPoints.find(p => p.salary === salary)
-  if (exactMatch) return exactMatch.cost
-  
-  // Extrapolate below the lowest data point using the slope of the first two points
-  if (salary < sortedPoints[0].salary && sortedPoints.length >= 2) {
-    const p1 = sortedPoints[0]
-    const p2 = sortedPoints[1]
-    const slope = (p2.cost - p1.cost) / (p2.salary - p1.salary)
-    return p1.cost + slope * (salary - p1.salary)
-  }
-  
-  // Extrapolate above the highest data point using the slope of the last two points
-  if (salary > sortedPoints[sortedPoints.length - 1].salary && sortedPoints.length >= 2) {
-    const p1 = sortedPoints[sortedPoints.length - 2]
-    const p2 = sortedPoints[sortedPoints.length - 1]
-    const slope = (p2.cost - p1.cost) / (p2.salary - p1.salary)
-    return p2.cost + slope * (salary - p2.salary)
-  }
-  
-  // Interpolate between data points
-  for (let i = 0; i < sortedPoints.length - 1; i++) {
-    const p1 = sortedPoints[i]
-    const p2 = sortedPoints[i + 1]
-    
-    if (salary >= p1.salary && salary <= p2.salary) {
-      // Linear interpolation
-      const ratio = (salary - p1.salary) / (p2.salary - p1.salary)
-      return p1.cost + ratio * (p2.cost - p1.cost)
-    }
-  }
-  
-  return null
+interface AmortizedCostChartProps {
+  params: AmortizedCostSearch
+  onParamsChange: (changes: Partial<AmortizedCostParams>, options?: ParamsChangeOptions) => void
 }
 
-// Generate interpolation-based formula for all levels
-function generateHiringFormula(data: HiringCostData): HiringCostFormula {
-  const parameters: { [level: number]: { points: Array<{salary: number, cost: number}> } } = {}
+export function AmortizedCostChart({ params, onParamsChange }: AmortizedCostChartProps) {
+  const { marketData, roles, role, hiringData, growth, uncertainty, calendar, levelRegistry } = useChartMarketData(params.data, params.role)
+  const discounted = growth.discountRate > 0
   
-  for (const [levelStr, salaryData] of Object.entries(data)) {
-    const level = parseInt(levelStr)
-    const entries = Object.entries(salaryData).filter(([, cost]) => cost !== null)
-    
-    if (entries.length >= 1) {
-      const points = entries.map(([salaryStr, cost]) => ({
-        salary: parseInt(salaryStr),
-        cost: cost!
-      }))
-      parameters[level] = { points }
-    }
-  }
-  
-  return {
-    type: 'interpolated',
-    formula: 'Linear interpolation between data points',
-    parameters
-  }
-}
+  const hiringFormula = useMemo(() => generateHiringFormula(hiringData, role.feeModels), [hiringData, role.feeModels])
+  const salaryRange = roleSalaryRange(role, params.level, levelRegistry)
+  const issues = useMemo(() => {
+    return lintLevel(params.level, hiringData[params.level] ?? {}, hiringFormula, salaryRange)
+  }, [params.level, hiringData, hiringFormula, salaryRange.min, salaryRange.max])
 
-// Hiring cost function using interpolation
-function hiringCost(startingSalary: number, level: number, formula: HiringCostFormula): number {
-  const params = formula.parameters[level]
-  if (!params || !params.points || params.points.length === 0) {
-    // Fallback for levels without data
-    return 1000
-  }
-  
-  const interpolated = interpolateHiringCost(startingSalary, params.points)
-  return interpolated !== null ? Math.max(1000, interpolated) : 1000
-}
+  const today = currentSeasonWeek(calendar)
+  const hire = normalizeSeasonWeek(calendar, {
+    season: params.hireSeason ?? today.season,
+    week: params.hireWeek ?? today.week,
+  })
+  const boundaries = seasonBoundaries(calendar, hire, params.maxWeeks)
 
-// Amortized cost calculation: A(S,T,ell) = (h(S, ell) + S * ((1+g(ell))^(T+1)-1)/g(ell)) / T
-function calculateAmortizedCost(S: number, T: number, level: number, hiringFormula: HiringCostFormula): number {
-  const g = growthFactor(level)
-  const h = hiringCost(S, level, hiringFormula)
-  
-  if (g === 0) {
-    // Handle edge case where growth factor is 0
-    return (h + S * (T + 1)) / T
-  }
-  
-  const maintenanceSum = S * (Math.pow(1 + g, T + 1) - 1) / g
-  return (h + maintenanceSum) / T
-}
+  // Overlaid levels need fee data of their own
+  const compared = (params.compare ?? []).filter(level => level !== params.level && hiringFormula.parameters[level])
 
-// Find the minimum of the amortized cost function analytically
-function findAmortizedCostMinimum(S: number, level: number, hiringFormula: HiringCostFormula): { week: number; cost: number } | null {
-  const g = growthFactor(level)
-  const h = hiringCost(S, level, hiringFormula)
-  
-  if (g === 0) {
-    // For g=0, function is monotonically decreasing, no minimum
-    return null
-  }
-  
-  // Derivative of A(S,T,ell) with respect to T equals 0 at minimum
-  // This requires solving a transcendental equation, so we'll use numerical approximation
-  // The minimum typically occurs when the derivative changes sign
-  
-  let minWeek = 1
-  let minCost = calculateAmortizedCost(S, 1, level, hiringFormula)
-  
-  // Search for minimum in reasonable range (1 to 500 weeks)
-  for (let t = 1; t <= 500; t++) {
-    const cost = calculateAmortizedCost(S, t, level, hiringFormula)
-    if (cost < minCost) {
-      minCost = cost
-      minWeek = t
-    }
-  }
-  
-  return { week: minWeek, cost: minCost }
-}
+  // Saved scenarios are evaluated over this chart's horizon
+  const { scenarios } = useScenarios()
+  const [overlaid, setOverlaid] = useState<string[]>([])
+  const scenarioResults = useMemo(() => {
+    return scenarios.map(scenario => ({ scenario, result: evaluateScenario(scenario, params.maxWeeks, calendar) }))
+  }, [scenarios, params.maxWeeks, calendar])
+  const overlaidResults = useMemo(() => {
+    return scenarioResults.filter(({ scenario }) => overlaid.includes(scenario.id))
+  }, [scenarioResults, overlaid])
 
-export function AmortizedCostChart() {
-  const [params, setParams] = useState<AmortizedCostParams>({
-    startingSalary: 8000,
-    level: 3,
-    maxWeeks: 52,
-  })
-  
-  const [hiringData, setHiringData] = useState<HiringCostData>(INITIAL_HIRING_DATA)
-  const [dialogOpen, setDialogOpen] = useState(false)
-  const [showAdvancedLevels, setShowAdvancedLevels] = useState(false)
-  
-  const hiringFormula = useMemo(() => generateHiringFormula(hiringData), [hiringData])
+  const config = useMemo(() => {
+    const overlays: ChartConfig = {}
+    compared.forEach((level, index) => {
+      overlays[`level${level}`] = { label: `Level ${level} Amortized Cost`, color: `var(${colors[(index + 1) % colors.length]})` }
+    })
+    overlaidResults.forEach(({ scenario }, index) => {
+      overlays[`scenario${index}`] = { label: scenario.name, color: `var(${colors[(compared.length + index + 1) % colors.length]})` }
+    })
+    return { ...chartConfig, ...overlays }
+  }, [compared.join(','), overlaidResults])
+
+  // Sampled hiring fees at the starting salary, when the level's fees carry an uncertainty
+  const feeSamples = useMemo(() => {
+    if (!hasFeeUncertainty(uncertainty, params.level)) return null
+    const model = role.feeModels[params.level] ?? 'interpolated'
+    return sampleFeeCurves(hiringData, uncertainty, params.level, model, [params.startingSalary]).map(fees => fees[0])
+  }, [hiringData, uncertainty, params.level, params.startingSalary, role.feeModels])
 
   const chartData = useMemo(() => {
     const data: ChartDataPoint[] = []
-    const g = growthFactor(params.level)
     const h = hiringCost(params.startingSalary, params.level, hiringFormula)
     
     for (let week = 1; week <= params.maxWeeks; week++) {
-      const amortizedCost = calculateAmortizedCost(params.startingSalary, week, params.level, hiringFormula)
-      
-      // Calculate cumulative cost up to this week
-      let cumulativeCost = h
-      for (let w = 0; w <= week; w++) {
-        cumulativeCost += params.startingSalary * Math.pow(1 + g, w)
-      }
-      
-      // Current week's maintenance cost
-      const weeklyMaintenance = params.startingSalary * Math.pow(1 + g, week)
-      
-      data.push({
+      const point: ChartDataPoint = {
         week,
-        amortizedCost,
-        cumulativeCost,
-        weeklyMaintenance,
+        amortizedCost: calculateAmortizedCost(params.startingSalary, week, params.level, hiringFormula, growth),
+        cumulativeCost: h + maintenanceCost(params.startingSalary, week, params.level, growth),
+        weeklyMaintenance: weeklySalary(params.startingSalary, week, params.level, growth),
+      }
+      for (const level of compared) {
+        point[`level${level}`] = calculateAmortizedCost(params.startingSalary, week, level, hiringFormula, growth)
+      }
+      overlaidResults.forEach(({ result }, index) => {
+        point[`scenario${index}`] = result.amortizedCosts[week - 1]
       })
+      if (discounted) {
+        point.undiscountedCost = calculateAmortizedCost(params.startingSalary, week, params.level, hiringFormula, withoutDiscount(growth))
+      }
+      if (feeSamples) {
+        const band = percentiles(feeSamples.map(fee => amortizedCostForFee(fee, params.startingSalary, week, params.level, growth)))
+        point.amortizedBand = [band.p5, band.p95]
+        point.amortizedIqr = [band.p25, band.p75]
+      }
+      data.push(point)
     }
     
     return data
-  }, [params, hiringFormula])
+  }, [params, hiringFormula, growth, discounted, feeSamples, compared.join(','), overlaidResults])
+
+  const currentResult = useMemo((): ScenarioResult => {
+    const hiringFee = hiringCost(params.startingSalary, params.level, hiringFormula)
+    return {
+      hiringFee,
+      solution: solveOptimalDuration(hiringFee, params.startingSalary, params.level, growth),
+      totalCost: chartData[chartData.length - 1]?.cumulativeCost ?? hiringFee,
+      amortizedCosts: chartData.map(point => point.amortizedCost),
+    }
+  }, [params.startingSalary, params.level, hiringFormula, growth, chartData])
+
+  const crossovers = useMemo(() => {
+    if (compared.length === 0) return []
+    return findCrossovers(chartData.map(point => point.week), [
+      { level: params.level, costs: chartData.map(point => point.amortizedCost) },
+      ...compared.map(level => ({ level, costs: chartData.map(point => point[`level${level}`]) })),
+    ])
+  }, [chartData, params.level, compared.join(',')])
+
+  const weekDistribution = useMemo(() => {
+    return feeSamples ? optimalWeekDistribution(feeSamples, params.startingSalary, params.level, growth) : null
+  }, [feeSamples, params.startingSalary, params.level, growth])
+
+  const solution = useMemo(() => {
+    return solveAmortizedCostMinimum(params.startingSalary, params.level, hiringFormula, growth)
+  }, [params.startingSalary, params.level, hiringFormula, growth])
+  const minimum = solution.kind === 'minimum' ? solution : null
+  const undiscountedMinimum = useMemo(() => {
+    if (!discounted) return null
+    const undiscounted = solveAmortizedCostMinimum(params.startingSalary, params.level, hiringFormula, withoutDiscount(growth))
+    return undiscounted.kind === 'minimum' ? undiscounted : null
+  }, [discounted, params.startingSalary, params.level, hiringFormula, growth])
 
-  const minimum = useMemo(() => {
-    return findAmortizedCostMinimum(params.startingSalary, params.level, hiringFormula)
-  }, [params.startingSalary, params.level, hiringFormula])
+  // The sensitivity panel searches as far as the optimum above it, not just the plotted weeks
+  const sensitivityBase = useMemo(() => ({
+    hiringFee: hiringCost(params.startingSalary, params.level, hiringFormula),
+    salary: params.startingSalary,
+    level: params.level,
+    growth,
+    horizon: OPTIMIZATION_HORIZON,
+  }), [params.startingSalary, params.level, hiringFormula, growth])
 
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Role</label>
+          <RoleSelect roles={roles} value={role.id} onChange={(roleId) => onParamsChange({ role: roleId })} />
+        </div>
         <div className="space-y-2">
           <label className="text-sm font-medium">Starting Salary ($)</label>
           <input
             type="number"
             step="500"
-            min={(() => {
-              if (params.level === 3) return 4000
-              else if (params.level === 4) return 7000
-              else if (params.level === 5) return 10000
-              else return 8000
-            })()}
-            max={(() => {
-              if (params.level === 3) return 8000
-              else if (params.level === 4) return 11000
-              else if (params.level === 5) return 20000
-              else return 16000
-            })()}
+            min={salaryRange.min}
+            max={salaryRange.max}
             value={params.startingSalary}
-            onChange={(e) => setParams(prev => ({...prev, startingSalary: Number(e.target.value)}))}
+            onChange={(e) => onParamsChange({ startingSalary: Number(e.target.value) }, { replace: true })}
             className="w-full px-3 py-2 border rounded-md"
           />
         </div>
         <div className="space-y-2">
           <label className="text-sm font-medium">Asset Level</label>
-          <input
-            type="number"
-            min="1"
-            max="10"
-            value={params.level}
-            onChange={(e) => setParams(prev => ({...prev, level: Number(e.target.value)}))}
-            className="w-full px-3 py-2 border rounded-md"
-          />
+          <LevelSelect value={params.level} onChange={(level) => onParamsChange({ level })} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Hired (Season / Week)</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="1"
+              value={hire.season}
+              onChange={(e) => onParamsChange({ hireSeason: Number(e.target.value), hireWeek: hire.week }, { replace: true })}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+            <input
+              type="number"
+              min="1"
+              max={calendar.seasonLength}
+              value={hire.week}
+              onChange={(e) => onParamsChange({ hireSeason: hire.season, hireWeek: Number(e.target.value) }, { replace: true })}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
         </div>
         <div className="space-y-2">
           <label className="text-sm font-medium">Max Weeks</label>
@@ -303,129 +282,74 @@ export function AmortizedCostChart() {
             min="1"
             max="104"
             value={params.maxWeeks}
-            onChange={(e) => setParams(prev => ({...prev, maxWeeks: Number(e.target.value)}))}
+            onChange={(e) => onParamsChange({ maxWeeks: Number(e.target.value) }, { replace: true })}
             className="w-full px-3 py-2 border rounded-md"
           />
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">Compare Levels:</span>
+        <LevelToggles
+          level={params.level}
+          value={compared}
+          available={STAFF_LEVELS.filter(level => hiringFormula.parameters[level])}
+          onChange={(levels) => onParamsChange({ compare: levels })}
+        />
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
         <div>
-          <strong>Growth Factor g(ℓ):</strong> {(growthFactor(params.level) * 100).toFixed(2)}%
+          <strong>Growth Factor g(ℓ):</strong> {(growthFactor(params.level, growth) * 100).toFixed(2)}%
         </div>
         <div className="flex items-center gap-2">
           <div>
-            <strong>Hiring Cost h(S,ℓ):</strong> ${(Math.round(hiringCost(params.startingSalary, params.level, hiringFormula) / 1000) * 1000).toLocaleString()}
+            <strong>Hiring Cost h(S,ℓ):</strong> ${(Math.round(hiringCost(params.startingSalary, params.level, hiringFormula) / 1000) * 1000).toLocaleString()}{' '}
+            <DataQualityBadge issues={issues} />
             <div className="text-xs text-muted-foreground mt-1">
               {hiringFormula.formula}
             </div>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline" size="sm">
-                <Edit className="h-3 w-3" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="!max-w-[80vw] !w-[80vw] max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Edit Hiring Cost Data</DialogTitle>
-                <DialogDescription>
-                  Edit market data with linear interpolation between points
-                </DialogDescription>
-              </DialogHeader>
-              
-              <div className="space-y-6">
-                <div className="flex gap-2">
-                  <Button 
-                    variant="outline" 
-                    onClick={() => setHiringData(INITIAL_HIRING_DATA)}
-                  >
-                    Reset to Market Data
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    onClick={() => setShowAdvancedLevels(!showAdvancedLevels)}
-                  >
-                    {showAdvancedLevels ? 'Hide' : 'Show'} Levels 5-7
-                  </Button>
-                  <Button onClick={() => setDialogOpen(false)}>
-                    Apply Changes
-                  </Button>
-                </div>
-                
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {(showAdvancedLevels ? [3, 4, 5, 6, 7] : [3, 4]).map(level => (
-                    <div key={level} className="space-y-3">
-                      <h4 className="font-medium">Level {level}</h4>
-                      {hiringFormula.parameters[level] && (
-                        <div className="text-xs text-muted-foreground mb-2">
-                          {hiringFormula.parameters[level].points.length} data points, linear interpolation
-                        </div>
-                      )}
-                      <div className="border rounded-lg overflow-hidden">
-                        <table className="w-full text-sm">
-                          <thead className="bg-muted">
-                            <tr>
-                              <th className="p-2 text-left">Salary</th>
-                              <th className="p-2 text-right">Hiring Cost</th>
-                              <th className="p-2 text-right">Interpolated</th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {(() => {
-                              let salaryRange = []
-                              if (level === 3) salaryRange = [4000, 5000, 6000, 7000, 8000]
-                              else if (level === 4) salaryRange = [7000, 8000, 9000, 10000, 11000]
-                              else if (level === 5) salaryRange = [10000, 12000, 14000, 16000, 18000, 20000]
-                              else salaryRange = [8000, 10000, 12000, 14000, 16000]
-                              return salaryRange
-                            })().map(salary => {
-                              const currentValue = hiringData[level]?.[salary]
-                              const interpolatedValue = hiringFormula.parameters[level] 
-                                ? hiringCost(salary, level, hiringFormula)
-                                : null
-                              
-                              return (
-                                <tr key={salary} className="border-t">
-                                  <td className="p-2 font-medium">${salary.toLocaleString()}</td>
-                                  <td className="p-2">
-                                    <input
-                                      type="number"
-                                      step="1000"
-                                      value={currentValue || ''}
-                                      placeholder="No data"
-                                      onChange={(e) => {
-                                        const value = e.target.value ? Number(e.target.value) : null
-                                        setHiringData(prev => ({
-                                          ...prev,
-                                          [level]: {
-                                            ...prev[level],
-                                            [salary]: value
-                                          }
-                                        }))
-                                      }}
-                                      className="w-full px-2 py-1 text-right text-xs border rounded"
-                                    />
-                                  </td>
-                                  <td className="p-2 text-right text-xs text-muted-foreground">
-                                    {interpolatedValue ? `$${Math.round(interpolatedValue).toLocaleString()}` : '-'}
-                                  </td>
-                                </tr>
-                              )
-                            })}
-                          </tbody>
-                        </table>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <HiringCostDialog roleId={role.id} level={params.level} />
+          <GrowthModelDialog />
+          <LevelRegistryDialog />
+          <SeasonCalendarDialog />
         </div>
-        {minimum && minimum.week <= params.maxWeeks && (
+        {minimum && (
+          <div>
+            <strong>Optimal Duration:</strong> {minimum.week} weeks, {describeUntil(calendar, hire, minimum.week)} (${Math.round(minimum.cost).toLocaleString()}/week)
+            {minimum.week > params.maxWeeks && (
+              <div className="text-xs text-amber-700 dark:text-amber-400 mt-1">
+                Past the {params.maxWeeks} weeks plotted, so the chart does not mark it
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground mt-1">
+              Continuous optimum: {minimum.continuousWeek.toFixed(1)} weeks (${Math.round(minimum.continuousCost).toLocaleString()}/week)
+            </div>
+            {discounted && (
+              <div className="text-xs text-muted-foreground mt-1">
+                Undiscounted: {undiscountedMinimum
+                  ? `${undiscountedMinimum.week} weeks ($${Math.round(undiscountedMinimum.cost).toLocaleString()}/week)`
+                  : 'no optimum'}
+              </div>
+            )}
+          </div>
+        )}
+        {solution.kind === 'no-minimum' && (
           <div>
-            <strong>Optimal Duration:</strong> {minimum.week} weeks (${Math.round(minimum.cost).toLocaleString()}/week)
+            <strong>Optimal Duration:</strong> {describeNoMinimum(solution.reason)}
+          </div>
+        )}
+        {weekDistribution && (
+          <div>
+            <strong>Optimal Week under Fee Uncertainty:</strong>{' '}
+            {weekDistribution.percentiles
+              ? `median ${Math.round(weekDistribution.percentiles.p50)} weeks, 90% between ${Math.round(weekDistribution.percentiles.p5)} and ${Math.round(weekDistribution.percentiles.p95)}`
+              : 'no sample has an optimum'}
+            <div className="text-xs text-muted-foreground mt-1">
+              {weekDistribution.samples} Monte Carlo samples
+              {weekDistribution.noMinimum > 0 && `, ${Math.round((weekDistribution.noMinimum / weekDistribution.samples) * 100)}% without an optimum`}
+            </div>
           </div>
         )}
       </div>
@@ -434,12 +358,16 @@ export function AmortizedCostChart() {
         <CardHeader>
           <CardTitle>Amortized Cost Analysis</CardTitle>
           <CardDescription>
-            Interactive visualization of A(S,T,ℓ) = (h(S,ℓ) + S × ((1+g(ℓ))^(T+1)-1)/g(ℓ)) / T
+            Interactive visualization of A(S,T,ℓ) = {discounted
+              ? '(h(S,ℓ) + Σ S_t/(1+d)^t) / Σ_{t<T} 1/(1+d)^t, the weekly payment with the same present value'
+              : growth.kind === 'linear'
+                ? '(h(S,ℓ) + S × (T+1)(1 + g(ℓ)·T/2)) / T'
+                : '(h(S,ℓ) + S × ((1+g(ℓ))^(T+1)-1)/g(ℓ)) / T'}, {describeGrowthModel(growth, params.level)}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <ChartContainer config={chartConfig}>
-            <LineChart
+          <ChartContainer config={config}>
+            <ComposedChart
               accessibilityLayer
               data={chartData}
               margin={{
@@ -450,10 +378,13 @@ export function AmortizedCostChart() {
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="week"
+                type="number"
+                domain={[1, params.maxWeeks]}
+                allowDecimals={false}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
-                tickFormatter={(value) => `Week ${value}`}
+                tickFormatter={(value) => formatSeasonWeek(addWeeks(calendar, hire, value))}
               />
               <YAxis
                 tickLine={false}
@@ -465,10 +396,40 @@ export function AmortizedCostChart() {
                 cursor={false}
                 content={<ChartTooltipContent />}
                 formatter={(value, name) => [
-                  `$${Number(value).toLocaleString()}`,
-                  chartConfig[name as keyof typeof chartConfig]?.label || name
+                  formatChartValue(value),
+                  config[name as string]?.label || name
                 ]}
+                labelFormatter={(label) => `${formatSeasonWeek(addWeeks(calendar, hire, Number(label)))} (week ${label} after hire)`}
               />
+              {boundaries.map(week => (
+                <ReferenceLine
+                  key={week}
+                  x={week}
+                  stroke="var(--muted-foreground)"
+                  strokeDasharray="3 3"
+                  label={{ value: `S${addWeeks(calendar, hire, week).season}`, position: 'insideTopLeft', fontSize: 10 }}
+                />
+              ))}
+              {feeSamples && (
+                <>
+                  <Area
+                    dataKey="amortizedBand"
+                    type="monotone"
+                    fill="var(--color-amortizedBand)"
+                    fillOpacity={0.12}
+                    stroke="none"
+                    isAnimationActive={false}
+                  />
+                  <Area
+                    dataKey="amortizedIqr"
+                    type="monotone"
+                    fill="var(--color-amortizedIqr)"
+                    fillOpacity={0.25}
+                    stroke="none"
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
               <Line
                 dataKey="amortizedCost"
                 type="monotone"
@@ -476,6 +437,37 @@ export function AmortizedCostChart() {
                 strokeWidth={3}
                 dot={false}
               />
+              {discounted && (
+                <Line
+                  dataKey="undiscountedCost"
+                  type="monotone"
+                  stroke="var(--color-undiscountedCost)"
+                  strokeWidth={2}
+                  dot={false}
+                  strokeDasharray="2 4"
+                />
+              )}
+              {compared.map(level => (
+                <Line
+                  key={level}
+                  dataKey={`level${level}`}
+                  type="monotone"
+                  stroke={`var(--color-level${level})`}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+              {overlaidResults.map(({ scenario }, index) => (
+                <Line
+                  key={scenario.id}
+                  dataKey={`scenario${index}`}
+                  type="monotone"
+                  stroke={`var(--color-scenario${index})`}
+                  strokeWidth={2}
+                  dot={false}
+                  strokeDasharray="8 3"
+                />
+              ))}
               <Line
                 dataKey="weeklyMaintenance"
                 type="monotone"
@@ -494,10 +486,79 @@ export function AmortizedCostChart() {
                   strokeWidth={2}
                 />
               )}
-            </LineChart>
+              {crossovers.map(crossover => (
+                <ReferenceDot
+                  key={`${crossover.cheaper}:${crossover.dearer}:${crossover.x}`}
+                  x={crossover.x}
+                  y={crossover.cost}
+                  r={4}
+                  fill="var(--background)"
+                  stroke="var(--foreground)"
+                  strokeWidth={2}
+                  label={{ value: `L${crossover.cheaper} < L${crossover.dearer}`, position: 'top', fontSize: 10 }}
+                />
+              ))}
+            </ComposedChart>
           </ChartContainer>
+          {compared.length > 0 && (
+            <div className="mt-4 text-sm space-y-1">
+              <strong>Crossovers:</strong>
+              {crossovers.length === 0 && (
+                <div className="text-muted-foreground">The compared curves do not cross within {params.maxWeeks} weeks</div>
+              )}
+              {crossovers.map(crossover => (
+                <div key={`${crossover.cheaper}:${crossover.dearer}:${crossover.x}`}>
+                  Week {crossover.x.toFixed(1)} ({formatSeasonWeek(addWeeks(calendar, hire, Math.round(crossover.x)))}): {describeCrossover(crossover)} at ${Math.round(crossover.cost).toLocaleString()}/week
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      <ScenarioPanel
+        params={params}
+        marketData={marketData}
+        current={currentResult}
+        results={scenarioResults}
+        horizon={params.maxWeeks}
+        overlaid={overlaid}
+        onOverlaidChange={setOverlaid}
+      />
+
+      <SensitivityPanel base={sensitivityBase} />
+
+      {weekDistribution && weekDistribution.histogram.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Distribution of the Optimal Week</CardTitle>
+            <CardDescription>
+              Optimal duration in each of {weekDistribution.samples} samples of the hiring fee curve
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-48 w-full">
+              <BarChart data={weekDistribution.histogram} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="week"
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={8}
+                  tickFormatter={(value) => `${value}w`}
+                />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip
+                  cursor={false}
+                  content={<ChartTooltipContent />}
+                  labelFormatter={(label) => `${label} weeks, ${describeUntil(calendar, hire, Number(label))}`}
+                />
+                <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
\ No newline at end of file
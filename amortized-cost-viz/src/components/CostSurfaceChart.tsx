@@ -0,0 +1,226 @@
+import { useMemo, useState } from "react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { GrowthModel, HiringCostFormula } from "@/lib/cost-model"
+import { CostSurfaceColumn, NEAR_OPTIMUM_TOLERANCE, buildCostSurface } from "@/lib/cost-surface"
+import { heatmapColor } from "@/lib/heatmap"
+import { SalaryRange } from "@/lib/roles"
+import { percentiles } from "@/lib/uncertainty"
+
+type SurfaceColoring = 'cost' | 'excess'
+
+const CELL_WIDTH = 18
+const PLOT_HEIGHT = 320
+const LABEL_WIDTH = 56
+const AXIS_HEIGHT = 24
+
+// Rows drawn at most; longer horizons group several weeks per row
+const MAX_ROWS = 80
+// Excess over the optimum that saturates the 'excess' coloring
+const MAX_EXCESS = 0.25
+
+function formatMoney(value: number) {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+function describeSlack(column: CostSurfaceColumn, tolerance: number): string {
+  if (!column.optimum || !column.band) return `At ${formatMoney(column.salary)} there is no optimum within the horizon`
+  return `At ${formatMoney(column.salary)}: optimum at week ${column.optimum.week} (${formatMoney(column.optimum.cost)}/week); weeks ${column.band.from}–${column.band.to} stay within ${(tolerance * 100).toFixed(1)}%`
+}
+
+// Consecutive columns that have a band, as runs of column indices
+function bandRuns(columns: CostSurfaceColumn[]): number[][] {
+  const runs: number[][] = []
+  let run: number[] = []
+  columns.forEach((column, c) => {
+    if (column.band) {
+      run.push(c)
+    } else if (run.length > 0) {
+      runs.push(run)
+      run = []
+    }
+  })
+  if (run.length > 0) runs.push(run)
+  return runs
+}
+
+interface CostSurfaceChartProps {
+  level: number
+  salaryRange: SalaryRange
+  hiringFormula: HiringCostFormula
+  growth: GrowthModel
+  horizon: number
+}
+
+// Filled heatmap of A(S,T) with the optimal-week ridge and the near-optimum band
+export function CostSurfaceChart({ level, salaryRange, hiringFormula, growth, horizon }: CostSurfaceChartProps) {
+  const [tolerancePercent, setTolerancePercent] = useState(NEAR_OPTIMUM_TOLERANCE * 100)
+  const [coloring, setColoring] = useState<SurfaceColoring>('excess')
+  const [hovered, setHovered] = useState<{ column: number; week: number } | null>(null)
+  const tolerance = tolerancePercent / 100
+
+  const columns = useMemo(() => {
+    return buildCostSurface(salaryRange, level, hiringFormula, growth, horizon, tolerance)
+  }, [salaryRange.min, salaryRange.max, level, hiringFormula, growth, horizon, tolerance])
+
+  // Short stays cost many times the optimum, so the cost scale stops at the 95th percentile
+  const costScale = useMemo(() => {
+    const costs = columns.flatMap(column => column.costs)
+    return { min: Math.min(...costs), max: percentiles(costs).p95 }
+  }, [columns])
+
+  const weekStep = Math.ceil(horizon / MAX_ROWS)
+  const rowWeeks = Array.from({ length: Math.ceil(horizon / weekStep) }, (_, i) => 1 + i * weekStep)
+  const yOf = (week: number) => PLOT_HEIGHT * (1 - (week - 1) / horizon)
+  const xOf = (c: number) => LABEL_WIDTH + c * CELL_WIDTH + CELL_WIDTH / 2
+  const weekLabels = rowWeeks.filter((_, i) => i % Math.ceil(rowWeeks.length / 6) === 0)
+  const labelEvery = Math.max(1, Math.ceil(columns.length / 8))
+
+  const cellColor = (column: CostSurfaceColumn, week: number) => {
+    const cost = column.costs[week - 1]
+    if (coloring === 'cost') return heatmapColor(Math.min(cost, costScale.max), costScale.min, costScale.max)
+    if (!column.optimum) return 'var(--muted)'
+    return heatmapColor(Math.min(cost / column.optimum.cost - 1, MAX_EXCESS), 0, MAX_EXCESS)
+  }
+
+  const cheapest = columns.reduce<CostSurfaceColumn | null>((best, column) => {
+    if (!column.optimum) return best
+    return !best?.optimum || column.optimum.cost < best.optimum.cost ? column : best
+  }, null)
+
+  const hoveredColumn = hovered ? columns[hovered.column] : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Amortized Cost over Salary and Weeks Kept</CardTitle>
+            <CardDescription>
+              A(S,T) for level {level}; the solid line is the optimal week, the shaded band holds the weeks within {tolerancePercent}% of the optimum
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 text-sm">
+            <select
+              value={coloring}
+              onChange={(e) => setColoring(e.target.value as SurfaceColoring)}
+              className="px-3 py-2 border rounded-md bg-background"
+            >
+              <option value="excess">Color by excess over optimum</option>
+              <option value="cost">Color by weekly cost</option>
+            </select>
+            <input
+              type="number"
+              min="0.5"
+              max="25"
+              step="0.5"
+              value={tolerancePercent}
+              title="Band width (% over the optimum)"
+              onChange={(e) => setTolerancePercent(Math.min(25, Math.max(0.5, Number(e.target.value))))}
+              className="w-20 px-3 py-2 border rounded-md"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm min-h-5">
+          {hovered && hoveredColumn ? (
+            <>
+              S {formatMoney(hoveredColumn.salary)}, T {hovered.week} weeks: {formatMoney(hoveredColumn.costs[hovered.week - 1])}/week
+              {hoveredColumn.optimum && ` (+${((hoveredColumn.costs[hovered.week - 1] / hoveredColumn.optimum.cost - 1) * 100).toFixed(1)}% over the optimum)`}
+              <div className="text-xs text-muted-foreground">{describeSlack(hoveredColumn, tolerance)}</div>
+            </>
+          ) : cheapest ? (
+            <span className="text-muted-foreground">Cheapest salary. {describeSlack(cheapest, tolerance)}</span>
+          ) : (
+            <span className="text-muted-foreground">No salary has an optimum within {horizon} weeks</span>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <svg
+            width={LABEL_WIDTH + columns.length * CELL_WIDTH}
+            height={PLOT_HEIGHT + AXIS_HEIGHT}
+            onMouseLeave={() => setHovered(null)}
+          >
+            {columns.map((column, c) => rowWeeks.map(week => (
+              <rect
+                key={`${column.salary}:${week}`}
+                x={LABEL_WIDTH + c * CELL_WIDTH}
+                y={yOf(Math.min(week + weekStep, horizon + 1))}
+                width={CELL_WIDTH}
+                height={yOf(week) - yOf(Math.min(week + weekStep, horizon + 1))}
+                fill={cellColor(column, week)}
+                onMouseEnter={() => setHovered({ column: c, week })}
+              />
+            )))}
+            {bandRuns(columns).map(run => (
+              <polygon
+                key={run[0]}
+                points={[
+                  ...run.map(c => `${xOf(c)},${yOf(columns[c].band!.to + 1)}`),
+                  ...[...run].reverse().map(c => `${xOf(c)},${yOf(columns[c].band!.from)}`),
+                ].join(' ')}
+                fill="var(--foreground)"
+                fillOpacity={0.15}
+                stroke="var(--foreground)"
+                strokeDasharray="4 3"
+                pointerEvents="none"
+              />
+            ))}
+            {bandRuns(columns).map(run => (
+              <polyline
+                key={run[0]}
+                points={run.map(c => `${xOf(c)},${yOf(columns[c].optimum!.week + 0.5)}`).join(' ')}
+                fill="none"
+                stroke="var(--foreground)"
+                strokeWidth={2}
+                pointerEvents="none"
+              />
+            ))}
+            {weekLabels.map(week => (
+              <text
+                key={week}
+                x={LABEL_WIDTH - 6}
+                y={yOf(week + 0.5)}
+                textAnchor="end"
+                dominantBaseline="middle"
+                fontSize={11}
+                fill="currentColor"
+              >
+                {week}w
+              </text>
+            ))}
+            {columns.map((column, c) => c % labelEvery === 0 && (
+              <text
+                key={column.salary}
+                x={xOf(c)}
+                y={PLOT_HEIGHT + AXIS_HEIGHT / 2 + 2}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={11}
+                fill="currentColor"
+              >
+                ${(column.salary / 1000).toFixed(1)}K
+              </text>
+            ))}
+          </svg>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>{coloring === 'cost' ? `${formatMoney(costScale.min)}/week` : 'Optimum'}</span>
+          <div
+            className="h-3 w-48 rounded"
+            style={{ background: `linear-gradient(to right, ${heatmapColor(0, 0, 1)}, ${heatmapColor(0.5, 0, 1)}, ${heatmapColor(1, 0, 1)})` }}
+          />
+          <span>{coloring === 'cost' ? `${formatMoney(costScale.max)}/week or more` : `+${MAX_EXCESS * 100}% or more`}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,21 @@
+import { AlertTriangle } from "lucide-react"
+import { MarketDataIssue } from "@/lib/market-data-lint"
+
+interface DataQualityBadgeProps {
+  issues: MarketDataIssue[]
+}
+
+// Warning count for the market data behind a chart; hover lists the issues
+export function DataQualityBadge({ issues }: DataQualityBadgeProps) {
+  if (issues.length === 0) return null
+
+  return (
+    <span
+      title={issues.map(issue => issue.message).join('\n')}
+      className="inline-flex items-center gap-1 rounded-full border border-amber-500/50 bg-amber-500/10 px-2 py-0.5 text-xs font-medium text-amber-700 dark:text-amber-400"
+    >
+      <AlertTriangle className="h-3 w-3" />
+      {issues.length} data {issues.length === 1 ? 'warning' : 'warnings'}
+    </span>
+  )
+}
@@ -0,0 +1,87 @@
+import { useMemo } from "react"
+import { CartesianGrid, ComposedChart, Line, Scatter, XAxis, YAxis } from "recharts"
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { HiringCostFormula, hiringCost } from "@/lib/cost-model"
+import { SalaryRange, salarySweep } from "@/lib/roles"
+
+interface FeeFitPoint {
+  salary: number
+  fitted?: number
+  observed?: number
+}
+
+const chartConfig = {
+  fitted: {
+    label: "Model h(S,ℓ)",
+    color: "var(--chart-1)",
+  },
+  observed: {
+    label: "Market data",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig
+
+interface FeeFitChartProps {
+  level: number
+  formula: HiringCostFormula
+  range: SalaryRange
+}
+
+// The level's fee model plotted over its raw market observations
+export function FeeFitChart({ level, formula, range }: FeeFitChartProps) {
+  const points = formula.parameters[level]?.points ?? []
+
+  const data = useMemo(() => {
+    // Cover the charted range and every observation
+    const min = Math.min(range.min, ...points.map(p => p.salary))
+    const max = Math.max(range.max, ...points.map(p => p.salary))
+    const curve: FeeFitPoint[] = salarySweep({ min, max }, Math.max(50, (max - min) / 80))
+      .map(salary => ({ salary, fitted: hiringCost(salary, level, formula) }))
+    const observed: FeeFitPoint[] = points.map(p => ({ salary: p.salary, observed: p.cost }))
+    return [...curve, ...observed].sort((a, b) => a.salary - b.salary)
+  }, [level, formula, range.min, range.max, points])
+
+  return (
+    <ChartContainer config={chartConfig} className="h-40 w-full">
+      <ComposedChart data={data} margin={{ left: 4, right: 4 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="salary"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={40}
+          tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+        />
+        <ChartTooltip
+          cursor={false}
+          content={<ChartTooltipContent />}
+          formatter={(value, name) => [
+            `$${Math.round(Number(value)).toLocaleString()}`,
+            chartConfig[name as keyof typeof chartConfig]?.label || name
+          ]}
+          labelFormatter={(_, payload) => {
+            const salary = payload?.[0]?.payload?.salary
+            return salary ? `Salary: $${Math.round(salary).toLocaleString()}` : 'Salary: --'
+          }}
+        />
+        <Line
+          dataKey="fitted"
+          type="monotone"
+          stroke="var(--color-fitted)"
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+        <Scatter dataKey="observed" fill="var(--color-observed)" isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,127 @@
+import { TrendingUp } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { DEFAULT_GROWTH_MODEL, GrowthKind, STAFF_LEVELS, growthFactor } from "@/lib/cost-model"
+import { useGrowthModel } from "@/hooks/use-growth-model"
+
+// Settings panel for the salary growth model used by every chart
+export function GrowthModelDialog() {
+  const { growthModel, setGrowthModel, resetGrowthModel } = useGrowthModel()
+
+  const setRate = (level: number, percent: string) => {
+    setGrowthModel(prev => {
+      const { [level]: _previous, ...rates } = prev.rates
+      return { ...prev, rates: percent === '' ? rates : { ...rates, [level]: Number(percent) / 100 } }
+    })
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Growth model">
+          <TrendingUp className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Salary Growth Model</DialogTitle>
+          <DialogDescription>
+            How weekly salaries grow after hiring and how later payments are discounted. Used by every chart; role settings can still override a level's rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="font-medium">Growth</label>
+              <select
+                value={growthModel.kind}
+                onChange={(e) => setGrowthModel(prev => ({ ...prev, kind: e.target.value as GrowthKind }))}
+                className="w-full px-3 py-2 border rounded-md bg-background"
+              >
+                <option value="compound">Compounding: S × (1+g)^t</option>
+                <option value="linear">Linear: S × (1 + g·t)</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="font-medium">Maximum Salary ($)</label>
+              <input
+                type="number"
+                step="1000"
+                min="0"
+                value={growthModel.maxSalary ?? ''}
+                placeholder="No cap"
+                onChange={(e) => setGrowthModel(prev => ({
+                  ...prev,
+                  maxSalary: e.target.value ? Number(e.target.value) : null,
+                }))}
+                className="w-full px-3 py-2 border rounded-md"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="font-medium">Discount Rate (% per week)</label>
+            <input
+              type="number"
+              step="0.05"
+              min="0"
+              value={growthModel.discountRate === 0 ? '' : Number((growthModel.discountRate * 100).toFixed(4))}
+              placeholder="No discounting"
+              onChange={(e) => setGrowthModel(prev => ({
+                ...prev,
+                discountRate: e.target.value ? Math.max(0, Number(e.target.value)) / 100 : 0,
+              }))}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+            <p className="text-xs text-muted-foreground">
+              Money later is worth less: costs become the constant weekly payment with the same present value. Charts show undiscounted figures alongside.
+            </p>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="p-2 text-left">Level</th>
+                  <th className="p-2 text-right">Weekly Growth g(ℓ) %</th>
+                </tr>
+              </thead>
+              <tbody>
+                {STAFF_LEVELS.map(level => {
+                  const rate = growthModel.rates[level]
+                  return (
+                    <tr key={level} className="border-t">
+                      <td className="p-2 font-medium">Level {level}</td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="0.05"
+                          value={rate === undefined ? '' : Number((rate * 100).toFixed(4))}
+                          placeholder={(growthFactor(level, DEFAULT_GROWTH_MODEL) * 100).toFixed(2)}
+                          onChange={(e) => setRate(level, e.target.value)}
+                          className="w-full px-2 py-1 text-right text-xs border rounded"
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <Button variant="outline" onClick={resetGrowthModel}>
+            Reset to Default Growth
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { GrowthModelDialog } from "@/components/GrowthModelDialog"
+import { HiringCostDialog } from "@/components/HiringCostDialog"
+import { LevelRegistryDialog } from "@/components/LevelRegistryDialog"
+import { SeasonCalendarDialog } from "@/components/SeasonCalendarDialog"
+import { RoleSelect } from "@/components/RoleSelect"
+import { STAFF_LEVELS, describeGrowthModel, generateHiringFormula } from "@/lib/cost-model"
+import { HeatmapCell, budgetContour, buildHeatmap, heatmapColor } from "@/lib/heatmap"
+import { useChartMarketData } from "@/hooks/use-market-data"
+import { HeatmapParams, HeatmapSearch, ParamsChangeOptions } from "@/lib/search-params"
+
+const CELL_WIDTH = 18
+const CELL_HEIGHT = 36
+const LABEL_WIDTH = 64
+const AXIS_HEIGHT = 24
+
+// Salary labels under the grid, at most this many
+const SALARY_LABELS = 8
+
+function formatMoney(value: number) {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+function describeCell(cell: HeatmapCell): string {
+  const where = `Level ${cell.level} at ${formatMoney(cell.salary)}`
+  if (!cell.optimum) return `${where}: no optimum (hiring fee ${formatMoney(cell.hiringFee)})`
+  return `${where}: optimal week ${cell.optimum.week}, hiring fee ${formatMoney(cell.hiringFee)}, ${formatMoney(cell.optimum.cost)}/week`
+}
+
+interface HeatmapChartProps {
+  params: HeatmapSearch
+  onParamsChange: (changes: Partial<HeatmapParams>, options?: ParamsChangeOptions) => void
+}
+
+// Optimal weekly cost for every level and starting salary
+export function HeatmapChart({ params, onParamsChange }: HeatmapChartProps) {
+  const { roles, role, hiringData, growth } = useChartMarketData(params.data, params.role)
+  const [hovered, setHovered] = useState<HeatmapCell | null>(null)
+
+  const hiringFormula = useMemo(() => generateHiringFormula(hiringData, role.feeModels), [hiringData, role.feeModels])
+  const grid = useMemo(() => {
+    return buildHeatmap({ min: params.minSalary, max: params.maxSalary }, STAFF_LEVELS, hiringFormula, growth)
+  }, [params.minSalary, params.maxSalary, hiringFormula, growth])
+  const contour = useMemo(() => {
+    return params.budget === undefined ? [] : budgetContour(grid, params.budget)
+  }, [grid, params.budget])
+
+  const width = LABEL_WIDTH + grid.salaries.length * CELL_WIDTH
+  const height = grid.levels.length * CELL_HEIGHT + AXIS_HEIGHT
+  const labelEvery = Math.max(1, Math.ceil(grid.salaries.length / SALARY_LABELS))
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Role</label>
+          <RoleSelect roles={roles} value={role.id} onChange={(roleId) => onParamsChange({ role: roleId })} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Min Salary ($)</label>
+          <input
+            type="number"
+            step="500"
+            min="0"
+            value={params.minSalary}
+            onChange={(e) => onParamsChange({ minSalary: Number(e.target.value) }, { replace: true })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Max Salary ($)</label>
+          <input
+            type="number"
+            step="500"
+            min={params.minSalary + 1000}
+            value={params.maxSalary}
+            onChange={(e) => onParamsChange({ maxSalary: Number(e.target.value) }, { replace: true })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Weekly Budget ($)</label>
+          <input
+            type="number"
+            step="500"
+            min="0"
+            value={params.budget ?? ''}
+            placeholder="No contour"
+            onChange={(e) => onParamsChange({ budget: e.target.value === '' ? undefined : Number(e.target.value) }, { replace: true })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div className="flex items-end gap-2">
+          <HiringCostDialog roleId={role.id} />
+          <GrowthModelDialog />
+          <LevelRegistryDialog />
+          <SeasonCalendarDialog />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Optimal Weekly Cost by Level and Salary</CardTitle>
+          <CardDescription>
+            Each cell is the optimal amortized cost at that starting salary ({describeGrowthModel(growth)}), green cheapest to red dearest
+            {params.budget !== undefined && `; the outline encloses cells within ${formatMoney(params.budget)}/week`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-sm min-h-5">
+            {hovered ? describeCell(hovered) : <span className="text-muted-foreground">Hover a cell for its optimum</span>}
+          </div>
+
+          {grid.levels.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No level has hiring fee data for this role.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <svg width={width} height={height} onMouseLeave={() => setHovered(null)}>
+                {grid.cells.map((row, r) => (
+                  <g key={grid.levels[r]}>
+                    <text
+                      x={LABEL_WIDTH - 8}
+                      y={r * CELL_HEIGHT + CELL_HEIGHT / 2}
+                      textAnchor="end"
+                      dominantBaseline="middle"
+                      fontSize={12}
+                      fill="currentColor"
+                    >
+                      Level {grid.levels[r]}
+                    </text>
+                    {row.map((cell, c) => (
+                      <rect
+                        key={cell.salary}
+                        x={LABEL_WIDTH + c * CELL_WIDTH}
+                        y={r * CELL_HEIGHT}
+                        width={CELL_WIDTH}
+                        height={CELL_HEIGHT}
+                        fill={cell.optimum && grid.minCost !== null && grid.maxCost !== null
+                          ? heatmapColor(cell.optimum.cost, grid.minCost, grid.maxCost)
+                          : 'var(--muted)'}
+                        stroke={hovered === cell ? 'var(--foreground)' : 'var(--background)'}
+                        strokeWidth={hovered === cell ? 2 : 0.5}
+                        onMouseEnter={() => setHovered(cell)}
+                      />
+                    ))}
+                  </g>
+                ))}
+                {contour.map((segment, index) => (
+                  <line
+                    key={index}
+                    x1={LABEL_WIDTH + segment.x1 * CELL_WIDTH}
+                    y1={segment.y1 * CELL_HEIGHT}
+                    x2={LABEL_WIDTH + segment.x2 * CELL_WIDTH}
+                    y2={segment.y2 * CELL_HEIGHT}
+                    stroke="var(--foreground)"
+                    strokeWidth={2.5}
+                    strokeLinecap="square"
+                    pointerEvents="none"
+                  />
+                ))}
+                {grid.salaries.map((salary, c) => c % labelEvery === 0 && (
+                  <text
+                    key={salary}
+                    x={LABEL_WIDTH + c * CELL_WIDTH + CELL_WIDTH / 2}
+                    y={grid.levels.length * CELL_HEIGHT + AXIS_HEIGHT / 2 + 2}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fontSize={11}
+                    fill="currentColor"
+                  >
+                    ${(salary / 1000).toFixed(1)}K
+                  </text>
+                ))}
+              </svg>
+            </div>
+          )}
+
+          {grid.levels.length < STAFF_LEVELS.length && grid.levels.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Not shown, no hiring fee data: level {STAFF_LEVELS.filter(level => !grid.levels.includes(level)).join(', ')}
+            </p>
+          )}
+
+          {grid.minCost !== null && grid.maxCost !== null && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>{formatMoney(grid.minCost)}/week</span>
+              <div
+                className="h-3 w-48 rounded"
+                style={{ background: `linear-gradient(to right, ${heatmapColor(0, 0, 1)}, ${heatmapColor(0.5, 0, 1)}, ${heatmapColor(1, 0, 1)})` }}
+              />
+              <span>{formatMoney(grid.maxCost)}/week</span>
+              <span className="ml-4 inline-block h-3 w-3 rounded bg-muted" /> No optimum
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
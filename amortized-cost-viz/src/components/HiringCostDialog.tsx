@@ -0,0 +1,350 @@
+import { useMemo, useState } from "react"
+import { Link } from "@tanstack/react-router"
+import { AlertTriangle, Edit, LineChart, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { MarketDataTransfer } from "@/components/MarketDataTransfer"
+import { FeeFitChart } from "@/components/FeeFitChart"
+import { RoleSettings } from "@/components/RoleSettings"
+import { ObservationLog } from "@/components/ObservationLog"
+import { HiringCostData, INITIAL_HIRING_DATA, STAFF_LEVELS, generateHiringFormula, hiringCost } from "@/lib/cost-model"
+import { HIRING_FEE_MODELS, HiringFeeModel } from "@/lib/fee-models"
+import { levelDefinition } from "@/lib/levels"
+import { lintHiringData } from "@/lib/market-data-lint"
+import { MarketObservation } from "@/lib/observations"
+import { FeeSpread, FeeSpreadKind } from "@/lib/uncertainty"
+import {
+  createRole,
+  findRole,
+  roleHiringData,
+  roleObservationBuckets,
+  roleSalaryRange,
+  salaryTicks,
+} from "@/lib/roles"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+import { useMarketData } from "@/hooks/use-market-data"
+import { useSeasonCalendar } from "@/hooks/use-season-calendar"
+
+interface HiringCostDialogProps {
+  roleId?: string // Role selected when the dialog opens
+  level?: number // Level the Curve Editor opens at; defaults to the first featured level
+}
+
+// Editor for the shared hiring market data, opened from any chart
+export function HiringCostDialog({ roleId, level: editorLevel }: HiringCostDialogProps) {
+  const { marketData, setMarketData } = useMarketData()
+  const { calendar } = useSeasonCalendar()
+  const { levelRegistry } = useLevelRegistry()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [showAllLevels, setShowAllLevels] = useState(false)
+  const [selectedRoleId, setSelectedRoleId] = useState(roleId ?? marketData.roles[0].id)
+  const [newRoleName, setNewRoleName] = useState('')
+
+  const role = findRole(marketData, selectedRoleId)
+  const hiringData = useMemo(() => roleHiringData(marketData, role.id, calendar), [marketData, role.id, calendar])
+  // Export and import cover only the entered points; observations have their own log
+  const enteredData = marketData.hiringData[role.id] ?? {}
+  const buckets = useMemo(() => roleObservationBuckets(marketData, role.id, calendar), [marketData, role.id, calendar])
+  const hiringFormula = useMemo(() => generateHiringFormula(hiringData, role.feeModels), [hiringData, role.feeModels])
+  const levels = STAFF_LEVELS.filter(level => showAllLevels || levelDefinition(level, levelRegistry).featured)
+  const curveEditorLevel = editorLevel ?? STAFF_LEVELS.find(level => levelDefinition(level, levelRegistry).featured) ?? STAFF_LEVELS[0]
+
+  const issues = useMemo(() => {
+    return lintHiringData(hiringData, hiringFormula, level => roleSalaryRange(role, level, levelRegistry))
+  }, [hiringData, hiringFormula, role, levelRegistry])
+
+  const setFeeModel = (level: number, model: HiringFeeModel) => {
+    setMarketData(prev => ({
+      ...prev,
+      roles: prev.roles.map(r => r.id === role.id ? { ...r, feeModels: { ...r.feeModels, [level]: model } } : r),
+    }))
+  }
+
+  const setHiringData = (update: HiringCostData | ((prev: HiringCostData) => HiringCostData)) => {
+    setMarketData(prev => {
+      const current = prev.hiringData[role.id] ?? {}
+      return {
+        ...prev,
+        hiringData: {
+          ...prev.hiringData,
+          [role.id]: typeof update === "function" ? update(current) : update,
+        },
+      }
+    })
+  }
+
+  const setFeeSpread = (level: number, salary: number, spread: FeeSpread | null) => {
+    setMarketData(prev => {
+      const { [salary]: _previous, ...spreads } = prev.feeUncertainty[role.id]?.[level] ?? {}
+      return {
+        ...prev,
+        feeUncertainty: {
+          ...prev.feeUncertainty,
+          [role.id]: { ...prev.feeUncertainty[role.id], [level]: spread ? { ...spreads, [salary]: spread } : spreads },
+        },
+      }
+    })
+  }
+
+  const setObservations = (observations: MarketObservation[]) => {
+    setMarketData(prev => ({
+      ...prev,
+      observations: { ...prev.observations, [role.id]: observations },
+    }))
+  }
+
+  const addRole = () => {
+    const created = createRole(newRoleName, marketData.roles)
+    setMarketData(prev => ({
+      ...prev,
+      roles: [...prev.roles, created],
+      hiringData: { ...prev.hiringData, [created.id]: {} },
+    }))
+    setSelectedRoleId(created.id)
+    setNewRoleName('')
+  }
+
+  const removeRole = () => {
+    setMarketData(prev => {
+      const { [role.id]: _removed, ...hiringData } = prev.hiringData
+      const { [role.id]: _removedObservations, ...observations } = prev.observations
+      const { [role.id]: _removedUncertainty, ...feeUncertainty } = prev.feeUncertainty
+      return { ...prev, roles: prev.roles.filter(r => r.id !== role.id), hiringData, observations, feeUncertainty }
+    })
+    setSelectedRoleId(marketData.roles.find(r => r.id !== role.id)?.id ?? '')
+  }
+
+  return (
+    <Dialog
+      open={dialogOpen}
+      onOpenChange={(open) => {
+        if (open && roleId) setSelectedRoleId(roleId)
+        setDialogOpen(open)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Edit className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="!max-w-[80vw] !w-[80vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Hiring Cost Data</DialogTitle>
+          <DialogDescription>
+            Edit market data with linear interpolation between points, or log dated observations. Give a fee an uncertainty (σ standard deviation or ± range) to see Monte Carlo bands on the charts. Each role has its own data.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={role.id}
+              onChange={(e) => setSelectedRoleId(e.target.value)}
+              className="px-3 py-2 text-sm border rounded-md bg-background"
+            >
+              {marketData.roles.map(r => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+            <input
+              value={newRoleName}
+              placeholder="New role name"
+              onChange={(e) => setNewRoleName(e.target.value)}
+              className="px-3 py-2 text-sm border rounded-md"
+            />
+            <Button variant="outline" onClick={addRole} disabled={!newRoleName.trim()}>
+              <Plus className="h-3 w-3" />
+              Add Role
+            </Button>
+            <Button variant="outline" onClick={removeRole} disabled={marketData.roles.length <= 1}>
+              <Trash2 className="h-3 w-3" />
+              Remove Role
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <Button 
+              variant="outline" 
+              onClick={() => setHiringData(INITIAL_HIRING_DATA)}
+            >
+              Reset to Market Data
+            </Button>
+            <Button 
+              variant="outline" 
+              onClick={() => setShowAllLevels(!showAllLevels)}
+            >
+              {showAllLevels ? 'Hide Other Levels' : 'Show All Levels'}
+            </Button>
+            <Link to="/market-data" search={{ role: role.id, level: curveEditorLevel }} onClick={() => setDialogOpen(false)}>
+              <Button variant="outline">
+                <LineChart className="h-3 w-3" />
+                Curve Editor
+              </Button>
+            </Link>
+            <Button onClick={() => setDialogOpen(false)}>
+              Apply Changes
+            </Button>
+          </div>
+
+          <MarketDataTransfer hiringData={enteredData} onApply={setHiringData} />
+
+          <ObservationLog
+            observations={marketData.observations[role.id] ?? []}
+            settings={marketData.observationSettings}
+            buckets={buckets}
+            levels={levels}
+            onChange={setObservations}
+            onSettingsChange={(observationSettings) => setMarketData(prev => ({ ...prev, observationSettings }))}
+          />
+
+          <RoleSettings
+            role={role}
+            levels={levels}
+            onChange={(updated) => setMarketData(prev => ({
+              ...prev,
+              roles: prev.roles.map(r => r.id === updated.id ? updated : r),
+            }))}
+          />
+          
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {levels.map(level => (
+              <div key={level} className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-medium">Level {level}</h4>
+                  <select
+                    value={role.feeModels[level] ?? 'interpolated'}
+                    onChange={(e) => setFeeModel(level, e.target.value as HiringFeeModel)}
+                    className="px-2 py-1 text-xs border rounded bg-background"
+                  >
+                    {HIRING_FEE_MODELS.map(model => (
+                      <option key={model.value} value={model.value}>{model.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {hiringFormula.parameters[level] && (
+                  <>
+                    <div className="text-xs text-muted-foreground mb-2">
+                      {hiringFormula.parameters[level].fit ? (
+                        <>
+                          <div className="font-mono">{hiringFormula.parameters[level].fit.equation}</div>
+                          <div>
+                            R² = {hiringFormula.parameters[level].fit.rSquared.toFixed(3)} over {hiringFormula.parameters[level].points.length} data points
+                          </div>
+                        </>
+                      ) : (
+                        `${hiringFormula.parameters[level].points.length} data points, linear interpolation`
+                      )}
+                    </div>
+                    <FeeFitChart level={level} formula={hiringFormula} range={roleSalaryRange(role, level, levelRegistry)} />
+                  </>
+                )}
+                {issues.filter(issue => issue.level === level && issue.salary === null).map(issue => (
+                  <div key={issue.message} className="flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                    {issue.message}
+                  </div>
+                ))}
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="p-2 text-left">Salary</th>
+                        <th className="p-2 text-right">Hiring Cost</th>
+                        <th className="p-2 text-right">Uncertainty</th>
+                        <th className="p-2 text-right">Obs.</th>
+                        <th className="p-2 text-right">Model</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...new Set([
+                        ...salaryTicks(roleSalaryRange(role, level, levelRegistry), levelDefinition(level, levelRegistry).tickStep),
+                        ...Object.keys(hiringData[level] ?? {}).map(Number),
+                      ])].sort((a, b) => a - b).map(salary => {
+                        const currentValue = hiringData[level]?.[salary]
+                        const bucket = buckets.find(b => b.level === level && b.salary === salary)
+                        const spread = marketData.feeUncertainty[role.id]?.[level]?.[salary]
+                        const rowIssues = issues.filter(issue => issue.level === level && issue.salary === salary)
+                        const modelValue = hiringFormula.parameters[level] 
+                          ? hiringCost(salary, level, hiringFormula)
+                          : null
+                        
+                        return (
+                          <tr key={salary} className="border-t">
+                            <td className="p-2 font-medium">${salary.toLocaleString()}</td>
+                            <td className="p-2">
+                              <input
+                                type="number"
+                                step="1000"
+                                value={currentValue ?? ''}
+                                placeholder="No data"
+                                readOnly={!!bucket}
+                                title={bucket ? `Aggregated from ${bucket.count} observation${bucket.count === 1 ? '' : 's'}` : undefined}
+                                onChange={(e) => {
+                                  const value = e.target.value ? Number(e.target.value) : null
+                                  setHiringData(prev => ({
+                                    ...prev,
+                                    [level]: {
+                                      ...prev[level],
+                                      [salary]: value
+                                    }
+                                  }))
+                                }}
+                                className={`w-full px-2 py-1 text-right text-xs border rounded ${rowIssues.length > 0 ? 'border-amber-500' : ''} ${bucket ? 'bg-muted' : ''}`}
+                              />
+                              {rowIssues.map(issue => (
+                                <div key={issue.kind} className="mt-1 text-[11px] leading-tight text-amber-700 dark:text-amber-400">
+                                  {issue.message}
+                                </div>
+                              ))}
+                            </td>
+                            <td className="p-2">
+                              <div className="flex gap-1">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="500"
+                                  value={spread?.amount ?? ''}
+                                  placeholder="None"
+                                  onChange={(e) => setFeeSpread(level, salary, e.target.value
+                                    ? { kind: spread?.kind ?? 'sd', amount: Math.max(0, Number(e.target.value)) }
+                                    : null)}
+                                  className="w-full min-w-16 px-2 py-1 text-right text-xs border rounded"
+                                />
+                                <select
+                                  value={spread?.kind ?? 'sd'}
+                                  disabled={!spread}
+                                  onChange={(e) => spread && setFeeSpread(level, salary, { ...spread, kind: e.target.value as FeeSpreadKind })}
+                                  className="px-1 py-1 text-xs border rounded bg-background"
+                                >
+                                  <option value="sd">σ</option>
+                                  <option value="range">±</option>
+                                </select>
+                              </div>
+                            </td>
+                            <td className="p-2 text-right text-xs text-muted-foreground">
+                              {bucket?.count ?? '-'}
+                            </td>
+                            <td className="p-2 text-right text-xs text-muted-foreground">
+                              {modelValue ? `$${Math.round(modelValue).toLocaleString()}` : '-'}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
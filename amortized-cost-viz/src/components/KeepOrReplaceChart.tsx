@@ -0,0 +1,303 @@
+import { useMemo } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis, ReferenceLine } from "recharts"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { GrowthModelDialog } from "@/components/GrowthModelDialog"
+import { HiringCostDialog } from "@/components/HiringCostDialog"
+import { LevelRegistryDialog } from "@/components/LevelRegistryDialog"
+import { LevelSelect } from "@/components/LevelSelect"
+import { SeasonCalendarDialog } from "@/components/SeasonCalendarDialog"
+import { RoleSelect } from "@/components/RoleSelect"
+import {
+  decideKeepOrReplace,
+  describeGrowthModel,
+  findAmortizedCostMinimum,
+  generateHiringFormula,
+  growthFactor,
+  impliedStartingSalary,
+  weeklySalary,
+  withoutDiscount,
+} from "@/lib/cost-model"
+import {
+  addWeeks,
+  currentSeasonWeek,
+  describeUntil,
+  formatSeasonWeek,
+  seasonBoundaries,
+} from "@/lib/season-calendar"
+import { useChartMarketData } from "@/hooks/use-market-data"
+import { KeepOrReplaceParams, KeepOrReplaceSearch, ParamsChangeOptions } from "@/lib/search-params"
+
+interface KeepDataPoint {
+  week: number
+  currentSalary: number
+  replacementCost: number
+}
+
+const chartConfig = {
+  currentSalary: {
+    label: "Current Staff Salary",
+    color: "var(--chart-1)",
+  },
+  replacementCost: {
+    label: "Replacement Cost per Week",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig
+
+interface KeepOrReplaceChartProps {
+  params: KeepOrReplaceSearch
+  onParamsChange: (changes: Partial<KeepOrReplaceParams>, options?: ParamsChangeOptions) => void
+}
+
+export function KeepOrReplaceChart({ params, onParamsChange }: KeepOrReplaceChartProps) {
+  const { roles, role, hiringData, growth, calendar } = useChartMarketData(params.data, params.role)
+
+  const hiringFormula = useMemo(() => generateHiringFormula(hiringData, role.feeModels), [hiringData, role.feeModels])
+  const today = currentSeasonWeek(calendar)
+
+  const knowsCurrentSalary = params.currentSalary !== undefined
+  const startingSalary = params.currentSalary === undefined
+    ? params.startingSalary
+    : impliedStartingSalary(params.currentSalary, params.weeksEmployed, params.level, growth)
+  const currentSalary = params.currentSalary ?? weeklySalary(startingSalary, params.weeksEmployed, params.level, growth)
+
+  const decision = useMemo(() => {
+    return decideKeepOrReplace(startingSalary, params.weeksEmployed, params.level, params.replacementSalary, hiringFormula, growth)
+  }, [startingSalary, params.weeksEmployed, params.level, params.replacementSalary, hiringFormula, growth])
+
+  const undiscountedReplacement = useMemo(() => {
+    if (growth.discountRate === 0) return null
+    return findAmortizedCostMinimum(params.replacementSalary, params.level, hiringFormula, withoutDiscount(growth))
+  }, [params.replacementSalary, params.level, hiringFormula, growth])
+
+  const chartData = useMemo(() => {
+    if (!decision) return []
+
+    const data: KeepDataPoint[] = []
+    const weeks = Math.max(26, decision.replaceInWeeks + 12)
+    for (let week = 0; week <= weeks; week++) {
+      data.push({
+        week,
+        currentSalary: weeklySalary(startingSalary, params.weeksEmployed + week, params.level, growth),
+        replacementCost: decision.replacement.cost,
+      })
+    }
+
+    return data
+  }, [decision, startingSalary, params.weeksEmployed, params.level, growth])
+
+  const boundaries = seasonBoundaries(calendar, today, chartData.length - 1)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Role</label>
+          <RoleSelect roles={roles} value={role.id} onChange={(roleId) => onParamsChange({ role: roleId })} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Asset Level</label>
+          <LevelSelect value={params.level} onChange={(level) => onParamsChange({ level })} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Known Salary</label>
+          <select
+            value={knowsCurrentSalary ? 'current' : 'original'}
+            onChange={(e) => onParamsChange({
+              currentSalary: e.target.value === 'current' ? Math.round(currentSalary) : undefined,
+            })}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+          >
+            <option value="original">Starting salary + weeks employed</option>
+            <option value="current">Current salary</option>
+          </select>
+        </div>
+        {knowsCurrentSalary ? (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Current Salary ($)</label>
+            <input
+              type="number"
+              step="100"
+              min="0"
+              value={params.currentSalary}
+              onChange={(e) => onParamsChange({ currentSalary: Number(e.target.value) }, { replace: true })}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Original Starting Salary ($)</label>
+            <input
+              type="number"
+              step="500"
+              min="0"
+              value={params.startingSalary}
+              onChange={(e) => onParamsChange({ startingSalary: Number(e.target.value) }, { replace: true })}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+        )}
+        {/* Needed with a current salary too: linear raises depend on the starting salary */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Weeks Employed</label>
+          <input
+            type="number"
+            min="0"
+            max="520"
+            value={params.weeksEmployed}
+            onChange={(e) => onParamsChange({ weeksEmployed: Number(e.target.value) }, { replace: true })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Replacement Starting Salary ($)</label>
+          <input
+            type="number"
+            step="500"
+            min="0"
+            value={params.replacementSalary}
+            onChange={(e) => onParamsChange({ replacementSalary: Number(e.target.value) }, { replace: true })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <strong>Current Salary:</strong> ${Math.round(currentSalary).toLocaleString()}/week
+          <div className="text-xs text-muted-foreground mt-1">
+            Growth Factor g(ℓ): {(growthFactor(params.level, growth) * 100).toFixed(2)}%
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {decision ? (
+            <div>
+              <strong>Replacement Optimum:</strong> ${Math.round(decision.replacement.cost).toLocaleString()}/week
+              <div className="text-xs text-muted-foreground mt-1">
+                Hiring fee ${Math.round(decision.replacementFee).toLocaleString()}, keep {decision.replacement.week} weeks
+                {decision.replaceInWeeks === 0 && ` (${describeUntil(calendar, today, decision.replacement.week)})`}
+              </div>
+              {undiscountedReplacement && (
+                <div className="text-xs text-muted-foreground mt-1">
+                  Undiscounted: ${Math.round(undiscountedReplacement.cost).toLocaleString()}/week over {undiscountedReplacement.week} weeks
+                </div>
+              )}
+            </div>
+          ) : (
+            <div>
+              <strong>Replacement Optimum:</strong> none within the optimization horizon
+            </div>
+          )}
+          <HiringCostDialog roleId={role.id} level={params.level} />
+          <GrowthModelDialog />
+          <LevelRegistryDialog />
+          <SeasonCalendarDialog />
+        </div>
+        {decision && (
+          <div>
+            <strong>Recommendation:</strong>{' '}
+            {decision.replaceInWeeks === 0
+              ? 'Replace now'
+              : `Keep ${decision.replaceInWeeks} more weeks, ${describeUntil(calendar, today, decision.replaceInWeeks)}, then replace`}
+            <div className="text-xs text-muted-foreground mt-1">
+              {decision.replaceInWeeks === 0
+                ? "Next week's salary already exceeds the replacement's weekly cost"
+                : `Saves $${Math.round(decision.savings).toLocaleString()} versus replacing now (replace at week ${
+                    params.weeksEmployed + decision.replaceInWeeks
+                  } of tenure)`}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Keep or Replace</CardTitle>
+          <CardDescription>
+            Keep the current staff member while their weekly salary stays below the replacement's optimal amortized cost ({describeGrowthModel(growth, params.level)})
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig}>
+            <LineChart
+              accessibilityLayer
+              data={chartData}
+              margin={{
+                left: 12,
+                right: 12,
+              }}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="week"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => formatSeasonWeek(addWeeks(calendar, today, value))}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => `$${Math.round(value).toLocaleString()}`}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent />}
+                formatter={(value, name) => [
+                  `$${Math.round(Number(value)).toLocaleString()}`,
+                  chartConfig[name as keyof typeof chartConfig]?.label || name
+                ]}
+                labelFormatter={(label) => `${formatSeasonWeek(addWeeks(calendar, today, Number(label)))} (${label} weeks from now)`}
+              />
+              {boundaries.map(week => (
+                <ReferenceLine
+                  key={week}
+                  x={week}
+                  stroke="var(--muted-foreground)"
+                  strokeDasharray="3 3"
+                  label={{ value: `S${addWeeks(calendar, today, week).season}`, position: 'insideTopLeft', fontSize: 10 }}
+                />
+              ))}
+              <Line
+                dataKey="currentSalary"
+                type="monotone"
+                stroke="var(--color-currentSalary)"
+                strokeWidth={3}
+                dot={false}
+              />
+              <Line
+                dataKey="replacementCost"
+                type="monotone"
+                stroke="var(--color-replacementCost)"
+                strokeWidth={2}
+                dot={false}
+                strokeDasharray="5 5"
+              />
+              {decision && (
+                <ReferenceLine
+                  x={decision.replaceInWeeks}
+                  stroke="var(--color-currentSalary)"
+                  strokeDasharray="3 3"
+                  label={{ value: 'Replace', position: 'top' }}
+                />
+              )}
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
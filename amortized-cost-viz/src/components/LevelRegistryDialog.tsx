@@ -0,0 +1,173 @@
+import { useState } from "react"
+import { Layers } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { STAFF_LEVELS } from "@/lib/cost-model"
+import { LevelDefinition, MIN_LEVEL_STEP, levelDefinition } from "@/lib/levels"
+import { normalizeTargetCosts } from "@/lib/target-costs"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+
+// Comma-separated targets, committed on blur or Enter so typing is not re-sorted
+function TargetCostsInput({ targets, onCommit }: { targets: number[]; onCommit: (targets: number[]) => void }) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft !== null) onCommit(normalizeTargetCosts(draft.split(",").map(Number)))
+    setDraft(null)
+  }
+
+  return (
+    <input
+      value={draft ?? targets.join(", ")}
+      placeholder="From market data"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+      }}
+      className="w-full px-2 py-1 text-xs border rounded"
+    />
+  )
+}
+
+// Settings panel for the level registry: names, salary ranges, steps, default targets and values
+export function LevelRegistryDialog() {
+  const { levelRegistry, setLevelRegistry, resetLevelRegistry } = useLevelRegistry()
+
+  const setLevel = (level: number, changes: Partial<LevelDefinition>) => {
+    setLevelRegistry(prev => ({ ...prev, [level]: { ...levelDefinition(level, prev), ...changes } }))
+  }
+
+  const setStep = (level: number, field: 'sweepStep' | 'tickStep', value: string) => {
+    setLevel(level, { [field]: Math.max(MIN_LEVEL_STEP, Number(value)) })
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Levels">
+          <Layers className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Staff Levels</DialogTitle>
+          <DialogDescription>
+            Names, charted salary ranges, sweep and tick steps, the max hiring fee chart's default targets and the value per week assumed by the value-for-money view. Used by every chart; role settings can still override a level's salary range.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="p-2 text-left">Level</th>
+                  <th className="p-2 text-left">Name</th>
+                  <th className="p-2 text-right">Salary Min</th>
+                  <th className="p-2 text-right">Salary Max</th>
+                  <th className="p-2 text-right">Sweep Step</th>
+                  <th className="p-2 text-right">Tick Step</th>
+                  <th className="p-2 text-left">Target Costs</th>
+                  <th className="p-2 text-right" title="Value for money's default when no value is entered">Value / Week</th>
+                  <th className="p-2 text-center" title="Listed in the hiring cost dialog without expanding it">Featured</th>
+                </tr>
+              </thead>
+              <tbody>
+                {STAFF_LEVELS.map(level => {
+                  const definition = levelDefinition(level, levelRegistry)
+                  return (
+                    <tr key={level} className="border-t">
+                      <td className="p-2 font-medium">{level}</td>
+                      <td className="p-2">
+                        <input
+                          value={definition.name}
+                          onChange={(e) => setLevel(level, { name: e.target.value })}
+                          className="w-full px-2 py-1 text-xs border rounded"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="500"
+                          min="0"
+                          value={definition.salaryRange.min}
+                          onChange={(e) => setLevel(level, { salaryRange: { ...definition.salaryRange, min: Number(e.target.value) } })}
+                          className="w-24 px-2 py-1 text-right text-xs border rounded"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="500"
+                          min={definition.salaryRange.min}
+                          value={definition.salaryRange.max}
+                          onChange={(e) => setLevel(level, { salaryRange: { ...definition.salaryRange, max: Number(e.target.value) } })}
+                          className="w-24 px-2 py-1 text-right text-xs border rounded"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="50"
+                          min={MIN_LEVEL_STEP}
+                          value={definition.sweepStep}
+                          onChange={(e) => setStep(level, 'sweepStep', e.target.value)}
+                          className="w-20 px-2 py-1 text-right text-xs border rounded"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="500"
+                          min={MIN_LEVEL_STEP}
+                          value={definition.tickStep}
+                          onChange={(e) => setStep(level, 'tickStep', e.target.value)}
+                          className="w-20 px-2 py-1 text-right text-xs border rounded"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <TargetCostsInput
+                          targets={definition.targetCosts}
+                          onCommit={(targetCosts) => setLevel(level, { targetCosts })}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="500"
+                          min="0"
+                          value={definition.weeklyValue}
+                          onChange={(e) => setLevel(level, { weeklyValue: Number(e.target.value) })}
+                          className="w-24 px-2 py-1 text-right text-xs border rounded"
+                        />
+                      </td>
+                      <td className="p-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={definition.featured}
+                          onChange={(e) => setLevel(level, { featured: e.target.checked })}
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <Button variant="outline" onClick={resetLevelRegistry}>
+            Reset to Default Levels
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
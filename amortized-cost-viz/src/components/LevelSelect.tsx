@@ -0,0 +1,22 @@
+import { STAFF_LEVELS } from "@/lib/cost-model"
+import { describeLevel } from "@/lib/levels"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+
+interface LevelSelectProps {
+  value: number
+  onChange: (level: number) => void
+  className?: string
+}
+
+// Picks a staff level by number and registry name
+export function LevelSelect({ value, onChange, className = "w-full px-3 py-2 border rounded-md bg-background" }: LevelSelectProps) {
+  const { levelRegistry } = useLevelRegistry()
+
+  return (
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={className}>
+      {STAFF_LEVELS.map(level => (
+        <option key={level} value={level}>{describeLevel(level, levelRegistry)}</option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,39 @@
+import { Button } from "@/components/ui/button"
+import { STAFF_LEVELS } from "@/lib/cost-model"
+import { describeLevel } from "@/lib/levels"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+
+interface LevelTogglesProps {
+  level: number // The chart's own level, always shown
+  value: number[]
+  available: number[] // Levels with hiring fee data; the others cannot be overlaid
+  onChange: (levels: number[] | undefined) => void
+}
+
+// Picks the other levels a chart overlays on its own level
+export function LevelToggles({ level, value, available, onChange }: LevelTogglesProps) {
+  const { levelRegistry } = useLevelRegistry()
+
+  const toggle = (other: number) => {
+    const levels = value.includes(other) ? value.filter(l => l !== other) : [...value, other].sort((a, b) => a - b)
+    onChange(levels.length > 0 ? levels : undefined)
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {STAFF_LEVELS.map(other => (
+        <Button
+          key={other}
+          variant={other === level || value.includes(other) ? "default" : "outline"}
+          size="sm"
+          className="w-8 px-0"
+          title={available.includes(other) ? describeLevel(other, levelRegistry) : `${describeLevel(other, levelRegistry)}: no hiring fee data`}
+          disabled={other === level || !available.includes(other)}
+          onClick={() => toggle(other)}
+        >
+          {other}
+        </Button>
+      ))}
+    </div>
+  )
+}
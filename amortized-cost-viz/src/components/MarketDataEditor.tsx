@@ -0,0 +1,474 @@
+import { useMemo, useState } from "react"
+import type { PointerEvent as ReactPointerEvent } from "react"
+import { CartesianGrid, ComposedChart, Customized, Line, Scatter, XAxis, YAxis } from "recharts"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { ChartConfig, ChartContainer } from "@/components/ui/chart"
+import { LevelSelect } from "@/components/LevelSelect"
+import { RoleSelect } from "@/components/RoleSelect"
+import { HiringCostData, HiringCostPoint, generateHiringFormula, hiringCost } from "@/lib/cost-model"
+import { HIRING_FEE_MODELS, HiringFeeModel } from "@/lib/fee-models"
+import { bucketsToHiringData } from "@/lib/observations"
+import { levelDefinition } from "@/lib/levels"
+import { findRole, roleObservationBuckets, roleSalaryRange, salarySweep, salaryTicks } from "@/lib/roles"
+import { MarketDataParams, ParamsChangeOptions } from "@/lib/search-params"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+import { useMarketData } from "@/hooks/use-market-data"
+import { useSeasonCalendar } from "@/hooks/use-season-calendar"
+
+type LevelData = HiringCostData[number]
+
+interface CurvePoint {
+  salary: number
+  curve?: number
+  observed?: number
+}
+
+// A point being dragged: where it started and where it is now
+interface PointDrag {
+  from: number
+  to: HiringCostPoint
+}
+
+const chartConfig = {
+  curve: {
+    label: "Interpolated h(S,ℓ)",
+    color: "var(--chart-1)",
+  },
+  points: {
+    label: "Entered points",
+    color: "var(--chart-2)",
+  },
+  observed: {
+    label: "Observation buckets",
+    color: "var(--chart-4)",
+  },
+} satisfies ChartConfig
+
+// Dragged and added points snap to these steps
+const SALARY_STEP = 50
+const FEE_STEP = 100
+
+function formatMoney(value: number) {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+function levelPoints(data: LevelData): HiringCostPoint[] {
+  return Object.entries<number | null>(data)
+    .filter((entry): entry is [string, number] => entry[1] !== null)
+    .map(([salary, cost]) => ({ salary: Number(salary), cost }))
+    .sort((a, b) => a.salary - b.salary)
+}
+
+// Moves the point at `from` to `to`; a salary already taken by another point keeps the old salary
+function movePoint(data: LevelData, from: number, to: HiringCostPoint): LevelData {
+  const salary = to.salary !== from && data[to.salary] != null ? from : to.salary
+  const { [from]: _moved, ...rest } = data
+  return { ...rest, [salary]: to.cost }
+}
+
+interface AxisScale {
+  (value: number): number
+  invert: (pixel: number) => number
+}
+
+// Props Recharts passes to a <Customized> element, plus the editor's callbacks
+interface CurveHandlesProps {
+  xAxisMap?: { [axisId: string]: { scale: AxisScale } }
+  yAxisMap?: { [axisId: string]: { scale: AxisScale } }
+  offset?: { left: number; top: number; width: number; height: number }
+  points: HiringCostPoint[]
+  onAdd: (point: HiringCostPoint) => void
+  onRemove: (salary: number) => void
+  onDragMove: (drag: PointDrag) => void
+  onDragEnd: (drag: PointDrag | null) => void
+}
+
+// Draggable handles drawn in the chart's own coordinates. Double-click the
+// plot to add a point, double-click a handle to remove it.
+function CurveHandles({ xAxisMap, yAxisMap, offset, points, onAdd, onRemove, onDragMove, onDragEnd }: CurveHandlesProps) {
+  const xScale = xAxisMap ? Object.values(xAxisMap)[0]?.scale : undefined
+  const yScale = yAxisMap ? Object.values(yAxisMap)[0]?.scale : undefined
+  if (!xScale || !yScale || !offset) return null
+
+  const toPoint = (svg: SVGSVGElement, clientX: number, clientY: number): HiringCostPoint => {
+    const rect = svg.getBoundingClientRect()
+    return {
+      salary: Math.max(0, Math.round(xScale.invert(clientX - rect.left) / SALARY_STEP) * SALARY_STEP),
+      cost: Math.max(0, Math.round(yScale.invert(clientY - rect.top) / FEE_STEP) * FEE_STEP),
+    }
+  }
+
+  const startDrag = (event: ReactPointerEvent<SVGCircleElement>, from: number) => {
+    const svg = event.currentTarget.ownerSVGElement
+    if (!svg) return
+    event.preventDefault()
+
+    let last: PointDrag | null = null
+    const move = (e: PointerEvent) => {
+      last = { from, to: toPoint(svg, e.clientX, e.clientY) }
+      onDragMove(last)
+    }
+    const end = () => {
+      window.removeEventListener('pointermove', move)
+      window.removeEventListener('pointerup', end)
+      onDragEnd(last)
+    }
+    window.addEventListener('pointermove', move)
+    window.addEventListener('pointerup', end)
+  }
+
+  return (
+    <g>
+      <rect
+        x={offset.left}
+        y={offset.top}
+        width={offset.width}
+        height={offset.height}
+        fill="transparent"
+        style={{ cursor: 'crosshair' }}
+        onDoubleClick={(e) => {
+          const svg = e.currentTarget.ownerSVGElement
+          if (svg) onAdd(toPoint(svg, e.clientX, e.clientY))
+        }}
+      />
+      {points.map(point => (
+        <circle
+          key={point.salary}
+          cx={xScale(point.salary)}
+          cy={yScale(point.cost)}
+          r={6}
+          fill="var(--color-points)"
+          stroke="var(--background)"
+          strokeWidth={2}
+          style={{ cursor: 'grab', touchAction: 'none' }}
+          onPointerDown={(e) => startDrag(e, point.salary)}
+          onDoubleClick={() => onRemove(point.salary)}
+        >
+          <title>{`${formatMoney(point.salary)}: ${formatMoney(point.cost)}`}</title>
+        </circle>
+      ))}
+    </g>
+  )
+}
+
+// Salary cell that renames its point when editing finishes, so rows do not
+// re-sort under the cursor while typing
+function SalaryInput({ salary, onCommit }: { salary: number; onCommit: (salary: number) => void }) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft !== null && draft !== '' && Number(draft) !== salary) onCommit(Math.max(0, Number(draft)))
+    setDraft(null)
+  }
+
+  return (
+    <input
+      type="number"
+      step={SALARY_STEP}
+      value={draft ?? salary}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+      }}
+      className="w-full px-2 py-1 text-right text-xs border rounded"
+    />
+  )
+}
+
+interface MarketDataEditorProps {
+  params: MarketDataParams
+  onParamsChange: (changes: Partial<MarketDataParams>, options?: ParamsChangeOptions) => void
+}
+
+// Fee-vs-salary curve of one level with points that can be added, dragged
+// and removed on the chart or in the table beside it
+export function MarketDataEditor({ params, onParamsChange }: MarketDataEditorProps) {
+  const { marketData, setMarketData } = useMarketData()
+  const { calendar } = useSeasonCalendar()
+  const { levelRegistry } = useLevelRegistry()
+  const [drag, setDrag] = useState<PointDrag | null>(null)
+  const [newPoint, setNewPoint] = useState({ salary: '', fee: '' })
+
+  const role = findRole(marketData, params.role)
+  const level = params.level
+  const salaryRange = roleSalaryRange(role, level, levelRegistry)
+
+  const entered = marketData.hiringData[role.id]?.[level] ?? {}
+  const editing = drag ? movePoint(entered, drag.from, drag.to) : entered
+  const points = levelPoints(editing)
+
+  const observed = useMemo(() => {
+    return bucketsToHiringData(roleObservationBuckets(marketData, role.id, calendar))[level] ?? {}
+  }, [marketData, role.id, calendar, level])
+
+  // Only this level is fitted, so the curve keeps up with a drag
+  const hiringFormula = useMemo(() => {
+    return generateHiringFormula({ [level]: { ...editing, ...observed } }, role.feeModels)
+  }, [level, editing, observed, role.feeModels])
+  const hasCurve = !!hiringFormula.parameters[level]
+
+  // Axes follow the saved points, not the one being dragged
+  const domain = useMemo(() => {
+    const saved = [...levelPoints(entered), ...levelPoints(observed)]
+    const minSalary = Math.min(salaryRange.min, ...saved.map(p => p.salary))
+    const maxSalary = Math.max(salaryRange.max, ...saved.map(p => p.salary))
+    const maxFee = Math.max(5000, ...saved.map(p => p.cost))
+    return {
+      x: [Math.max(0, Math.floor((minSalary - 500) / 1000) * 1000), Math.ceil((maxSalary + 500) / 1000) * 1000],
+      y: [0, Math.ceil((maxFee * 1.15) / 5000) * 5000],
+    }
+  }, [entered, observed, salaryRange.min, salaryRange.max])
+
+  const chartData = useMemo(() => {
+    const [min, max] = domain.x
+    const curve: CurvePoint[] = hasCurve
+      ? salarySweep({ min, max }, (max - min) / 120).map(salary => ({ salary, curve: hiringCost(salary, level, hiringFormula) }))
+      : []
+    const buckets: CurvePoint[] = levelPoints(observed).map(p => ({ salary: p.salary, observed: p.cost }))
+    return [...curve, ...buckets].sort((a, b) => a.salary - b.salary)
+  }, [domain, hasCurve, level, hiringFormula, observed])
+
+  const setLevelData = (update: (data: LevelData) => LevelData) => {
+    setMarketData(prev => {
+      const roleData = prev.hiringData[role.id] ?? {}
+      return {
+        ...prev,
+        hiringData: { ...prev.hiringData, [role.id]: { ...roleData, [level]: update(roleData[level] ?? {}) } },
+      }
+    })
+  }
+
+  const addPoint = (point: HiringCostPoint) => {
+    setLevelData(data => (data[point.salary] != null ? data : { ...data, [point.salary]: point.cost }))
+  }
+
+  const removePoint = (salary: number) => {
+    setLevelData(data => {
+      const { [salary]: _removed, ...rest } = data
+      return rest
+    })
+  }
+
+  const setFeeModel = (model: HiringFeeModel) => {
+    setMarketData(prev => ({
+      ...prev,
+      roles: prev.roles.map(r => r.id === role.id ? { ...r, feeModels: { ...r.feeModels, [level]: model } } : r),
+    }))
+  }
+
+  const addFromInputs = () => {
+    const salary = Number(newPoint.salary)
+    const fee = newPoint.fee !== '' ? Number(newPoint.fee) : hasCurve ? hiringCost(salary, level, hiringFormula) : 0
+    addPoint({ salary, cost: Math.round(fee) })
+    setNewPoint({ salary: '', fee: '' })
+  }
+
+  const observedCount = Object.keys(observed).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Level {level} Fee Curve</CardTitle>
+            <CardDescription>
+              Double-click the chart to add a point, drag a point to move it, double-click a point to remove it
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 ml-auto">
+            <RoleSelect
+              roles={marketData.roles}
+              value={role.id}
+              onChange={(roleId) => onParamsChange({ role: roleId })}
+              className="px-3 py-2 border rounded-md text-sm bg-background"
+            />
+            <LevelSelect
+              value={level}
+              onChange={(level) => onParamsChange({ level })}
+              className="px-3 py-2 border rounded-md text-sm bg-background"
+            />
+            <select
+              value={role.feeModels[level] ?? 'interpolated'}
+              onChange={(e) => setFeeModel(e.target.value as HiringFeeModel)}
+              className="px-3 py-2 border rounded-md text-sm bg-background"
+            >
+              {HIRING_FEE_MODELS.map(model => (
+                <option key={model.value} value={model.value}>{model.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 select-none">
+            <ChartContainer config={chartConfig} className="h-[420px] w-full">
+              <ComposedChart data={chartData} margin={{ left: 12, right: 12, top: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="salary"
+                  type="number"
+                  domain={domain.x}
+                  allowDataOverflow
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) => `$${(value / 1000).toFixed(1)}K`}
+                />
+                <YAxis
+                  type="number"
+                  domain={domain.y}
+                  allowDataOverflow
+                  tickLine={false}
+                  axisLine={false}
+                  width={48}
+                  tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+                />
+                <Line
+                  dataKey="curve"
+                  type="linear"
+                  stroke="var(--color-curve)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+                <Scatter dataKey="observed" fill="var(--color-observed)" shape="diamond" isAnimationActive={false} />
+                <Customized
+                  component={
+                    <CurveHandles
+                      points={points}
+                      onAdd={addPoint}
+                      onRemove={removePoint}
+                      onDragMove={setDrag}
+                      onDragEnd={(last) => {
+                        if (last) setLevelData(data => movePoint(data, last.from, last.to))
+                        setDrag(null)
+                      }}
+                    />
+                  }
+                />
+              </ComposedChart>
+            </ChartContainer>
+            {observedCount > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {observedCount} salary bucket{observedCount === 1 ? '' : 's'} (diamonds) come from the observation log and override entered points at the same salary.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="border rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="p-2 text-left">Salary</th>
+                    <th className="p-2 text-right">Fee</th>
+                    <th className="p-2 text-right">h(S,ℓ)</th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {points.length === 0 && (
+                    <tr className="border-t">
+                      <td colSpan={4} className="p-2 text-center text-xs text-muted-foreground">No points for this level</td>
+                    </tr>
+                  )}
+                  {points.map(point => (
+                    <tr key={point.salary} className={`border-t ${drag?.from === point.salary ? 'bg-muted' : ''}`}>
+                      <td className="p-2">
+                        <SalaryInput
+                          salary={point.salary}
+                          onCommit={(salary) => setLevelData(data => movePoint(data, point.salary, { salary, cost: point.cost }))}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          step="1000"
+                          value={point.cost}
+                          onChange={(e) => setLevelData(data => ({ ...data, [point.salary]: Number(e.target.value) }))}
+                          className="w-full px-2 py-1 text-right text-xs border rounded"
+                        />
+                      </td>
+                      <td className="p-2 text-right text-xs text-muted-foreground">
+                        {hasCurve ? formatMoney(hiringCost(point.salary, level, hiringFormula)) : '-'}
+                      </td>
+                      <td className="p-2 text-right">
+                        <button
+                          type="button"
+                          title="Remove point"
+                          onClick={() => removePoint(point.salary)}
+                          className="text-muted-foreground hover:text-foreground"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t">
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        step={SALARY_STEP}
+                        value={newPoint.salary}
+                        placeholder="Salary"
+                        onChange={(e) => setNewPoint(prev => ({ ...prev, salary: e.target.value }))}
+                        className="w-full px-2 py-1 text-right text-xs border rounded"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        step="1000"
+                        value={newPoint.fee}
+                        placeholder="Fee"
+                        onChange={(e) => setNewPoint(prev => ({ ...prev, fee: e.target.value }))}
+                        className="w-full px-2 py-1 text-right text-xs border rounded"
+                      />
+                    </td>
+                    <td className="p-2" colSpan={2}>
+                      <Button variant="outline" size="sm" onClick={addFromInputs} disabled={newPoint.salary === ''}>
+                        <Plus className="h-3 w-3" />
+                        Add
+                      </Button>
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {hasCurve && (
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="p-2 text-left">Salary</th>
+                      <th className="p-2 text-right">Interpolated h(S,ℓ)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {salaryTicks(salaryRange, levelDefinition(level, levelRegistry).tickStep).map(salary => (
+                      <tr key={salary} className="border-t">
+                        <td className="p-2">{formatMoney(salary)}</td>
+                        <td className="p-2 text-right">{formatMoney(hiringCost(salary, level, hiringFormula))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,131 @@
+import { useRef, useState } from "react"
+import { Download, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { HiringCostData } from "@/lib/cost-model"
+import {
+  MarketDataFormat,
+  MarketDataImport,
+  diffMarketData,
+  exportMarketData,
+  importMarketData,
+} from "@/lib/market-data-io"
+
+interface MarketDataTransferProps {
+  hiringData: HiringCostData
+  onApply: (data: HiringCostData) => void
+}
+
+interface PendingImport extends MarketDataImport {
+  fileName: string
+}
+
+function formatFee(fee: number | null) {
+  return fee === null ? '-' : `$${fee.toLocaleString()}`
+}
+
+function download(text: string, format: MarketDataFormat) {
+  const type = format === 'json' ? 'application/json' : 'text/csv'
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `hiring-market-data.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Import/export buttons for the hiring cost dialog, with a diff preview before applying
+export function MarketDataTransfer({ hiringData, onApply }: MarketDataTransferProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+
+  const handleFile = async (file: File) => {
+    const format: MarketDataFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+    const result = importMarketData(await file.text(), format)
+    setPending({ ...result, fileName: file.name })
+  }
+
+  const changes = pending?.data ? diffMarketData(hiringData, pending.data) : []
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => fileInput.current?.click()}>
+          <Upload className="h-3 w-3" />
+          Import
+        </Button>
+        <Button variant="outline" onClick={() => download(exportMarketData(hiringData, 'json'), 'json')}>
+          <Download className="h-3 w-3" />
+          Export JSON
+        </Button>
+        <Button variant="outline" onClick={() => download(exportMarketData(hiringData, 'csv'), 'csv')}>
+          <Download className="h-3 w-3" />
+          Export CSV
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {pending && (
+        <div className="border rounded-lg p-3 space-y-3 text-sm">
+          <div className="font-medium">Import preview: {pending.fileName}</div>
+          {pending.errors.length > 0 ? (
+            <ul className="text-xs text-destructive space-y-1">
+              {pending.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          ) : changes.length === 0 ? (
+            <div className="text-xs text-muted-foreground">
+              {pending.rows.length} rows, identical to the current data
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="p-2 text-left">Level</th>
+                    <th className="p-2 text-left">Salary</th>
+                    <th className="p-2 text-right">Current</th>
+                    <th className="p-2 text-right">Imported</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map(change => (
+                    <tr key={`${change.level}:${change.salary}`} className="border-t">
+                      <td className="p-2">{change.level}</td>
+                      <td className="p-2">${change.salary.toLocaleString()}</td>
+                      <td className="p-2 text-right text-muted-foreground">{formatFee(change.before)}</td>
+                      <td className="p-2 text-right">{formatFee(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={!pending.data}
+              onClick={() => {
+                if (pending.data) onApply(pending.data)
+                setPending(null)
+              }}
+            >
+              Apply Import
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useMemo, useState } from "react"
+import { useMemo } from "react"
 import { CartesianGrid, Line, LineChart, XAxis, YAxis, Legend } from "recharts"
 import {
   Card,
@@ -13,10 +13,29 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart"
-
-interface MaxHiringFeeParams {
-  level: number
-}
+import { GrowthModelDialog } from "@/components/GrowthModelDialog"
+import { HiringCostDialog } from "@/components/HiringCostDialog"
+import { LevelRegistryDialog } from "@/components/LevelRegistryDialog"
+import { LevelSelect } from "@/components/LevelSelect"
+import { SeasonCalendarDialog } from "@/components/SeasonCalendarDialog"
+import { RoleSelect } from "@/components/RoleSelect"
+import { TargetCostEditor } from "@/components/TargetCostEditor"
+import {
+  describeGrowthModel,
+  findHiringCostForTarget,
+  generateHiringFormula,
+  growthFactor,
+  hiringCost,
+  withoutDiscount,
+} from "@/lib/cost-model"
+import { seriesColor } from "@/lib/palette"
+import { levelDefinition } from "@/lib/levels"
+import { roleSalaryRange, salarySweep, salaryTicks } from "@/lib/roles"
+import { currentSeasonWeek, describeUntil } from "@/lib/season-calendar"
+import { autoTargetCosts, levelTargetCosts, normalizeTargetCosts } from "@/lib/target-costs"
+import { useChartMarketData } from "@/hooks/use-market-data"
+import { useTargetCosts } from "@/hooks/use-target-costs"
+import { MaxHiringFeeParams, MaxHiringFeeSearch, ParamsChangeOptions } from "@/lib/search-params"
 
 interface SalaryHiringFeePoint {
   salary: number
@@ -26,153 +45,87 @@ interface SalaryHiringFeePoint {
 // Dynamic chart config will be generated based on target costs
 const generateChartConfig = (targetCosts: number[]): ChartConfig => {
   const config: ChartConfig = {}
-  const colors = ["--chart-1", "--chart-2", "--chart-3", "--chart-4", "--chart-5", "--chart-1", "--chart-2"]
   
-  // For legend: natural order (lowest to highest)
-  // For colors: consistent with original order
+  // Targets are ascending, so the legend reads lowest to highest
   targetCosts.forEach((cost, index) => {
     config[`cost${cost}`] = {
       label: `$${cost.toLocaleString()}/week`,
-      color: `var(${colors[index % colors.length]})`
+      color: seriesColor(index)
     }
   })
-  
-  return config
-}
 
-// Growth factor function: g(ell) = (ell-1) * 0.25%
-function growthFactor(level: number): number {
-  return 0.01 + (level - 1) * 0.0025 // 1% base + 0.25% per level above 1
-}
-
-// Calculate optimal duration given hiring cost h, salary S, and level ℓ
-// Taking derivative of A(S,T,ℓ) = (h + S × ((1+g(ℓ))^(T+1)-1)/g(ℓ)) / T with respect to T
-// Setting to 0 and solving gives us the optimal T as a function of h
-function findOptimalDuration(hiringCost: number, salary: number, level: number): number {
-  const g = growthFactor(level)
-  
-  if (g === 0) {
-    // For g=0, amortized cost = (h + S*(T+1))/T = h/T + S + S/T
-    // Derivative = -h/T² - S/T² = -(h+S)/T²
-    // Always negative, so function is decreasing - no minimum exists in practice
-    return 100 // Return reasonable default
-  }
-  
-  // For the general case, we need to solve numerically since the derivative equation is transcendental
-  // dA/dT = 0 leads to: h/T² = S*(1+g)^(T+1) * ln(1+g) / T - S*((1+g)^(T+1)-1)/(g*T²)
-  
-  let bestT = 1
-  let minCost = Infinity
-  
-  for (let T = 1; T <= 500; T++) {
-    const maintenanceSum = salary * (Math.pow(1 + g, T + 1) - 1) / g
-    const amortizedCost = (hiringCost + maintenanceSum) / T
-    
-    if (amortizedCost < minCost) {
-      minCost = amortizedCost
-      bestT = T
-    }
+  config.marketFee = {
+    label: "Market fee h(S,ℓ)",
+    color: "var(--foreground)"
   }
   
-  return bestT
+  return config
 }
 
-// Calculate amortized cost at optimal duration for given hiring cost
-function calculateOptimalAmortizedCost(hiringCost: number, salary: number, level: number): { cost: number; duration: number } {
-  const optimalDuration = findOptimalDuration(hiringCost, salary, level)
-  const g = growthFactor(level)
-  
-  let maintenanceSum: number
-  if (g === 0) {
-    maintenanceSum = salary * (optimalDuration + 1)
-  } else {
-    maintenanceSum = salary * (Math.pow(1 + g, optimalDuration + 1) - 1) / g
-  }
-  
-  const amortizedCost = (hiringCost + maintenanceSum) / optimalDuration
-  
-  return { cost: amortizedCost, duration: optimalDuration }
+interface MaxHiringFeeChartProps {
+  params: MaxHiringFeeSearch
+  onParamsChange: (changes: Partial<MaxHiringFeeParams>, options?: ParamsChangeOptions) => void
 }
 
-// Find hiring cost that achieves target amortized cost at optimal duration
-function findHiringCostForTarget(targetCost: number, salary: number, level: number): { hiringCost: number; duration: number } {
-  // Binary search for the hiring cost that gives us the target amortized cost
-  let low = 1000
-  let high = 1000000 // 1M max hiring cost
-  let bestHiringCost = 1000
-  let bestDuration = 1
-  
-  for (let iter = 0; iter < 50; iter++) { // Binary search iterations
-    const mid = (low + high) / 2
-    const result = calculateOptimalAmortizedCost(mid, salary, level)
-    
-    if (Math.abs(result.cost - targetCost) < 1) { // Close enough
-      bestHiringCost = mid
-      bestDuration = result.duration
-      break
-    }
-    
-    if (result.cost > targetCost) {
-      high = mid // Too expensive, reduce hiring cost
-    } else {
-      low = mid // Too cheap, increase hiring cost
-    }
-    
-    bestHiringCost = mid
-    bestDuration = result.duration
-  }
-  
-  return { hiringCost: bestHiringCost, duration: bestDuration }
-}
+export function MaxHiringFeeChart({ params, onParamsChange }: MaxHiringFeeChartProps) {
+  const { roles, role, hiringData, growth, calendar, levelRegistry, targetCostSettings } = useChartMarketData(params.data, params.role)
+  const definition = levelDefinition(params.level, levelRegistry)
+  const hiringFormula = useMemo(() => generateHiringFormula(hiringData, role.feeModels), [hiringData, role.feeModels])
+  const hasMarketData = !!hiringFormula.parameters[params.level]
+  const salaryRange = roleSalaryRange(role, params.level, levelRegistry)
 
-export function MaxHiringFeeChart() {
-  const [params, setParams] = useState<MaxHiringFeeParams>({
-    level: 3,
-  })
-  
-  // Define target costs based on level
+  // The user's targets for the level, else the registry's, else generated from the market data
+  const { setTargetCosts } = useTargetCosts()
+  const generateTargets = () => {
+    return hasMarketData ? autoTargetCosts(salaryRange, params.level, hiringFormula, growth, definition.sweepStep) : []
+  }
   const targetCosts = useMemo(() => {
-    if (params.level === 3) return [7000, 8000, 9000, 10000]
-    else if (params.level === 4) return [9000, 10000, 11000, 12000, 13000, 14000]
-    else if (params.level === 5) return [14000, 16000, 18000, 20000, 22000, 24000, 26000]
-    else return [7000, 8000, 9000, 10000] // Default
-  }, [params.level])
+    return levelTargetCosts(targetCostSettings, params.level, levelRegistry, generateTargets)
+  }, [targetCostSettings, params.level, levelRegistry, hasMarketData, salaryRange.min, salaryRange.max, hiringFormula, growth])
+  const updateTargets = (targets: number[] | undefined) => {
+    setTargetCosts(prev => {
+      const { [params.level]: _previous, ...others } = prev
+      return targets === undefined ? others : { ...others, [params.level]: normalizeTargetCosts(targets) }
+    })
+  }
   
   const chartConfig = useMemo(() => generateChartConfig(targetCosts), [targetCosts])
+  const today = currentSeasonWeek(calendar)
 
   const salaryData = useMemo(() => {
-    // Get salary range based on level
-    let salaryRange: number[] = []
-    if (params.level === 3) salaryRange = Array.from({length: 21}, (_, i) => 4000 + i * 200) // 4k to 8k in 200 increments
-    else if (params.level === 4) salaryRange = Array.from({length: 21}, (_, i) => 7000 + i * 200) // 7k to 11k in 200 increments
-    else if (params.level === 5) salaryRange = Array.from({length: 51}, (_, i) => 10000 + i * 200) // 10k to 20k in 200 increments
-    else salaryRange = Array.from({length: 41}, (_, i) => 8000 + i * 200) // 8k to 16k in 200 increments
-    
     const data: SalaryHiringFeePoint[] = []
     
-    for (const salary of salaryRange) {
+    // Sweep the role's salary range for this level in the level's step
+    for (const salary of salarySweep(salaryRange, definition.sweepStep)) {
       const dataPoint: SalaryHiringFeePoint = { salary }
       let hasValidData = false
       
       // Calculate hiring cost for each target cost
       for (const targetCost of targetCosts) {
-        const result = findHiringCostForTarget(targetCost, salary, params.level)
+        const result = findHiringCostForTarget(targetCost, salary, params.level, growth)
         
-        // Only include reasonable hiring fees, exclude values too close to the search bounds
-        if (result.hiringCost > 1001 && result.hiringCost <= 1000000) {
+        if (result) {
           dataPoint[`cost${targetCost}`] = result.hiringCost
           dataPoint[`duration${targetCost}`] = result.duration // Store duration too
+          if (growth.discountRate > 0) {
+            const undiscounted = findHiringCostForTarget(targetCost, salary, params.level, withoutDiscount(growth))
+            if (undiscounted) dataPoint[`undiscounted${targetCost}`] = undiscounted.hiringCost
+          }
           hasValidData = true
         }
       }
       
       if (hasValidData) {
+        // Market asking price, to compare against the maximum fees
+        if (hasMarketData) {
+          dataPoint.marketFee = hiringCost(salary, params.level, hiringFormula)
+        }
         data.push(dataPoint)
       }
     }
     
     return data
-  }, [params, targetCosts])
+  }, [params, targetCosts, hiringFormula, hasMarketData, growth, salaryRange.min, salaryRange.max, definition.sweepStep])
 
   return (
     <div className="space-y-6">
@@ -184,30 +137,41 @@ export function MaxHiringFeeChart() {
             <div>
               <CardTitle>Maximum Hiring Fee by Salary</CardTitle>
               <CardDescription>
-                Multiple lines showing maximum hiring fees for different target amortized costs
+                Multiple lines showing maximum hiring fees for different target amortized costs ({describeGrowthModel(growth, params.level)})
               </CardDescription>
             </div>
             <div className="flex items-center gap-4 ml-auto">
               <div className="text-sm">
-                <strong>Growth Factor g(ℓ):</strong> {(growthFactor(params.level) * 100).toFixed(2)}%
+                <strong>Growth Factor g(ℓ):</strong> {(growthFactor(params.level, growth) * 100).toFixed(2)}%
               </div>
-              <select
+              <RoleSelect
+                roles={roles}
+                value={role.id}
+                onChange={(roleId) => onParamsChange({ role: roleId })}
+                className="px-3 py-2 border rounded-md text-sm bg-background"
+              />
+              <LevelSelect
                 value={params.level}
-                onChange={(e) => setParams(prev => ({...prev, level: Number(e.target.value)}))}
+                onChange={(level) => onParamsChange({ level })}
                 className="px-3 py-2 border rounded-md text-sm bg-background"
-              >
-                <option value={1}>1 - Minimal</option>
-                <option value={2}>2 - Basic</option>
-                <option value={3}>3 - Competent</option>
-                <option value={4}>4 - Advanced</option>
-                <option value={5}>5 - Superior</option>
-                <option value={6}>6 - Exceptional</option>
-                <option value={7}>7 - World-renowned</option>
-              </select>
+              />
+              <HiringCostDialog roleId={role.id} level={params.level} />
+              <GrowthModelDialog />
+              <LevelRegistryDialog />
+              <SeasonCalendarDialog />
             </div>
           </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <TargetCostEditor
+            targets={targetCosts}
+            colors={targetCosts.map((_, index) => seriesColor(index))}
+            isCustom={targetCostSettings[params.level] !== undefined}
+            canGenerate={hasMarketData}
+            onChange={updateTargets}
+            onGenerate={() => updateTargets(generateTargets())}
+            onReset={() => updateTargets(undefined)}
+          />
           <ChartContainer config={chartConfig}>
             <LineChart
               accessibilityLayer
@@ -226,13 +190,7 @@ export function MaxHiringFeeChart() {
                 tickMargin={8}
                 tickFormatter={(value) => `$${(value/1000).toFixed(0)}K`}
                 interval="preserveStartEnd"
-                ticks={(() => {
-                  // Generate reasonable tick marks based on the salary range
-                  if (params.level === 3) return [4000, 5000, 6000, 7000, 8000]
-                  else if (params.level === 4) return [7000, 8000, 9000, 10000, 11000]
-                  else if (params.level === 5) return [10000, 12000, 14000, 16000, 18000, 20000]
-                  else return [8000, 10000, 12000, 14000, 16000]
-                })()}
+                ticks={salaryTicks(salaryRange, definition.tickStep)}
               />
               <YAxis
                 tickLine={false}
@@ -247,25 +205,24 @@ export function MaxHiringFeeChart() {
                   
                   // Sort payload in descending order by target cost for display
                   const sortedPayload = props.payload
-                    .filter(item => item.name?.startsWith('cost'))
+                    .filter(item => String(item.name).startsWith('cost') || item.name === 'marketFee')
                     .sort((a, b) => {
-                      const costA = Number(a.name?.replace('cost', '') || 0)
-                      const costB = Number(b.name?.replace('cost', '') || 0)
+                      // Market fee goes last
+                      const costA = a.name === 'marketFee' ? -Infinity : Number(String(a.name).replace('cost', '') || 0)
+                      const costB = b.name === 'marketFee' ? -Infinity : Number(String(b.name).replace('cost', '') || 0)
                       return costB - costA // Descending order
                     })
                   
-                  // Create new props object with sorted payload for ChartTooltipContent
-                  const sortedProps = {
-                    ...props,
-                    payload: sortedPayload
-                  }
+                  // Pass the sorted payload on to ChartTooltipContent (minus the content renderer itself)
+                  const { content: _content, ...tooltipProps } = props
                   
-                  return <ChartTooltipContent {...sortedProps} />
+                  return <ChartTooltipContent {...tooltipProps} payload={sortedPayload} />
                 }}
                 formatter={(value, name, props) => {
-                  if (name.startsWith('cost')) {
-                    const targetCost = name.replace('cost', '')
+                  if (String(name).startsWith('cost')) {
+                    const targetCost = String(name).replace('cost', '')
                     const duration = props.payload[`duration${targetCost}`]
+                    const undiscounted = props.payload[`undiscounted${targetCost}`]
                     const colorVar = `var(--color-cost${targetCost})`
                     return [
                       <span key={name} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
@@ -277,11 +234,15 @@ export function MaxHiringFeeChart() {
                             display: 'inline-block'
                           }}
                         />
-                        Pay up to ${Math.round(Number(value)).toLocaleString()} and keep {duration} weeks at $${Number(targetCost).toLocaleString()}/week
+                        Pay up to ${Math.round(Number(value)).toLocaleString()} and keep {duration} weeks ({describeUntil(calendar, today, duration)}) at $${Number(targetCost).toLocaleString()}/week
+                        {undiscounted !== undefined && ` (undiscounted: $${Math.round(undiscounted).toLocaleString()})`}
                       </span>, 
                       ''
                     ]
                   }
+                  if (name === 'marketFee') {
+                    return [`Market asks $${Math.round(Number(value)).toLocaleString()}`, '']
+                  }
                   return [value, name]
                 }}
                 labelFormatter={(label, payload) => {
@@ -300,6 +261,9 @@ export function MaxHiringFeeChart() {
                     const targetCost = value.replace('cost', '')
                     return `$${Number(targetCost).toLocaleString()}/week`
                   }
+                  if (value === 'marketFee') {
+                    return 'Market fee'
+                  }
                   return value
                 }}
               />
@@ -313,6 +277,16 @@ export function MaxHiringFeeChart() {
                   dot={false}
                 />
               ))}
+              {hasMarketData && (
+                <Line
+                  dataKey="marketFee"
+                  type="monotone"
+                  stroke="var(--color-marketFee)"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                />
+              )}
             </LineChart>
           </ChartContainer>
         </CardContent>
@@ -320,13 +294,17 @@ export function MaxHiringFeeChart() {
 
       <div className="text-sm text-muted-foreground space-y-2">
         <div>
-          <strong>How to use:</strong> Each line represents a different target amortized cost. 
+          <strong>How to use:</strong> Each line represents a different target amortized cost; add, edit or generate the targets above the chart, and they are saved per level. 
           Find your desired salary on the X-axis and see the maximum hiring fees for different weekly cost targets.
         </div>
         <div>
           <strong>Reading the chart:</strong> Higher lines = higher target costs = willing to pay weekly more on average and keep staff member longer.
           Use the legend below the chart to identify each line.
         </div>
+        <div>
+          <strong>Market fee:</strong> The dashed line is the hiring fee from your market data.
+          Wherever it sits below a target line, hiring at that salary beats that weekly cost.
+        </div>
       </div>
     </div>
   )
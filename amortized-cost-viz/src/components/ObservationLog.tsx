@@ -0,0 +1,233 @@
+import { useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  MarketObservation,
+  ObservationAggregate,
+  ObservationBucket,
+  ObservationSettings,
+  createObservation,
+} from "@/lib/observations"
+import { currentSeasonWeek, formatSeasonWeek, toAbsoluteWeek } from "@/lib/season-calendar"
+import { useSeasonCalendar } from "@/hooks/use-season-calendar"
+
+interface ObservationLogProps {
+  observations: MarketObservation[]
+  settings: ObservationSettings
+  buckets: ObservationBucket[]
+  levels: number[]
+  onChange: (observations: MarketObservation[]) => void
+  onSettingsChange: (settings: ObservationSettings) => void
+}
+
+function formatMoney(value: number) {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+// Dated market sightings for one role, the aggregation that turns them into
+// hiring cost points, and how many observations back each salary bucket
+export function ObservationLog({ observations, settings, buckets, levels, onChange, onSettingsChange }: ObservationLogProps) {
+  const { calendar } = useSeasonCalendar()
+  const today = currentSeasonWeek(calendar)
+  const [draft, setDraft] = useState({ level: levels[0], salary: '', fee: '', season: '', week: '', note: '' })
+
+  const canAdd = draft.salary !== '' && draft.fee !== ''
+
+  const addObservation = () => {
+    onChange([
+      ...observations,
+      createObservation({
+        level: draft.level,
+        salary: Number(draft.salary),
+        fee: Number(draft.fee),
+        season: draft.season ? Number(draft.season) : today.season,
+        week: draft.week ? Number(draft.week) : today.week,
+        note: draft.note.trim(),
+      }),
+    ])
+    setDraft(prev => ({ ...prev, salary: '', fee: '', note: '' }))
+  }
+
+  // Newest first
+  const sorted = [...observations].sort((a, b) =>
+    toAbsoluteWeek(calendar, b) - toAbsoluteWeek(calendar, a) || a.level - b.level || a.salary - b.salary)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div>
+          <h4 className="font-medium">Observation Log</h4>
+          <p className="text-xs text-muted-foreground">
+            Observations are grouped into salary buckets; each bucket replaces any entered fee at that salary.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <label className="flex items-center gap-1">
+            Aggregate
+            <select
+              value={settings.aggregate}
+              onChange={(e) => onSettingsChange({ ...settings, aggregate: e.target.value as ObservationAggregate })}
+              className="px-2 py-1 border rounded bg-background"
+            >
+              <option value="median">Weighted median</option>
+              <option value="weighted-mean">Weighted mean</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Half-life (weeks)
+            <input
+              type="number"
+              min="1"
+              value={settings.halfLifeWeeks ?? ''}
+              placeholder="None"
+              onChange={(e) => onSettingsChange({
+                ...settings,
+                halfLifeWeeks: e.target.value ? Math.max(1, Number(e.target.value)) : null,
+              })}
+              className="w-20 px-2 py-1 text-right border rounded"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Bucket ($)
+            <input
+              type="number"
+              min="100"
+              step="100"
+              value={settings.bucketSize}
+              onChange={(e) => onSettingsChange({ ...settings, bucketSize: Math.max(100, Number(e.target.value)) })}
+              className="w-20 px-2 py-1 text-right border rounded"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={draft.level}
+          onChange={(e) => setDraft(prev => ({ ...prev, level: Number(e.target.value) }))}
+          className="px-2 py-1 border rounded bg-background"
+        >
+          {levels.map(level => (
+            <option key={level} value={level}>Level {level}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="100"
+          value={draft.salary}
+          placeholder="Salary"
+          onChange={(e) => setDraft(prev => ({ ...prev, salary: e.target.value }))}
+          className="w-24 px-2 py-1 border rounded"
+        />
+        <input
+          type="number"
+          step="1000"
+          value={draft.fee}
+          placeholder="Fee"
+          onChange={(e) => setDraft(prev => ({ ...prev, fee: e.target.value }))}
+          className="w-24 px-2 py-1 border rounded"
+        />
+        <input
+          type="number"
+          min="1"
+          value={draft.season}
+          placeholder={`S${today.season}`}
+          onChange={(e) => setDraft(prev => ({ ...prev, season: e.target.value }))}
+          className="w-16 px-2 py-1 border rounded"
+        />
+        <input
+          type="number"
+          min="1"
+          max={calendar.seasonLength}
+          value={draft.week}
+          placeholder={`W${today.week}`}
+          onChange={(e) => setDraft(prev => ({ ...prev, week: e.target.value }))}
+          className="w-16 px-2 py-1 border rounded"
+        />
+        <input
+          value={draft.note}
+          placeholder="Note"
+          onChange={(e) => setDraft(prev => ({ ...prev, note: e.target.value }))}
+          className="flex-1 min-w-32 px-2 py-1 border rounded"
+        />
+        <Button variant="outline" size="sm" onClick={addObservation} disabled={!canAdd}>
+          <Plus className="h-3 w-3" />
+          Add
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="border rounded-lg overflow-hidden max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="p-2 text-left">When</th>
+                <th className="p-2 text-left">Level</th>
+                <th className="p-2 text-right">Salary</th>
+                <th className="p-2 text-right">Fee</th>
+                <th className="p-2 text-left">Note</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.length === 0 && (
+                <tr className="border-t">
+                  <td colSpan={6} className="p-2 text-center text-xs text-muted-foreground">No observations yet</td>
+                </tr>
+              )}
+              {sorted.map(observation => (
+                <tr key={observation.id} className="border-t">
+                  <td className="p-2">{formatSeasonWeek(observation)}</td>
+                  <td className="p-2">{observation.level}</td>
+                  <td className="p-2 text-right">{formatMoney(observation.salary)}</td>
+                  <td className="p-2 text-right">{formatMoney(observation.fee)}</td>
+                  <td className="p-2 text-xs text-muted-foreground">{observation.note}</td>
+                  <td className="p-2 text-right">
+                    <button
+                      type="button"
+                      title="Delete observation"
+                      onClick={() => onChange(observations.filter(o => o.id !== observation.id))}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border rounded-lg overflow-hidden max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="p-2 text-left">Level</th>
+                <th className="p-2 text-right">Bucket</th>
+                <th className="p-2 text-right">Observations</th>
+                <th className="p-2 text-right">Fee</th>
+                <th className="p-2 text-right">Latest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {buckets.length === 0 && (
+                <tr className="border-t">
+                  <td colSpan={5} className="p-2 text-center text-xs text-muted-foreground">No salary buckets yet</td>
+                </tr>
+              )}
+              {buckets.map(bucket => (
+                <tr key={`${bucket.level}:${bucket.salary}`} className="border-t">
+                  <td className="p-2">{bucket.level}</td>
+                  <td className="p-2 text-right">{formatMoney(bucket.salary)}</td>
+                  <td className="p-2 text-right">{bucket.count}</td>
+                  <td className="p-2 text-right">{formatMoney(bucket.fee)}</td>
+                  <td className="p-2 text-right text-xs text-muted-foreground">{formatSeasonWeek(bucket.newest)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
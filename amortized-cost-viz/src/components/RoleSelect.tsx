@@ -0,0 +1,19 @@
+import { StaffRole } from "@/lib/roles"
+
+interface RoleSelectProps {
+  roles: StaffRole[]
+  value: string
+  onChange: (roleId: string) => void
+  className?: string
+}
+
+// Picks which role's market data and growth overrides a chart uses
+export function RoleSelect({ roles, value, onChange, className = "w-full px-3 py-2 border rounded-md bg-background" }: RoleSelectProps) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      {roles.map(role => (
+        <option key={role.id} value={role.id}>{role.name}</option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,105 @@
+import { growthFactor } from "@/lib/cost-model"
+import { levelDefinition } from "@/lib/levels"
+import { useGrowthModel } from "@/hooks/use-growth-model"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+import { SalaryRange, StaffRole } from "@/lib/roles"
+
+interface RoleSettingsProps {
+  role: StaffRole
+  levels: number[]
+  onChange: (role: StaffRole) => void
+}
+
+// Per-role overrides of the growth rate and charted salary range.
+// Empty inputs fall back to the defaults shown as placeholders.
+export function RoleSettings({ role, levels, onChange }: RoleSettingsProps) {
+  const { growthModel } = useGrowthModel()
+  const { levelRegistry } = useLevelRegistry()
+
+  const setGrowthRate = (level: number, percent: string) => {
+    const { [level]: _previous, ...growthRates } = role.growthRates
+    onChange({
+      ...role,
+      growthRates: percent === '' ? growthRates : { ...growthRates, [level]: Number(percent) / 100 },
+    })
+  }
+
+  const setSalaryBound = (level: number, bound: keyof SalaryRange, value: string) => {
+    const { [level]: previous, ...salaryRanges } = role.salaryRanges
+    if (value === '') {
+      onChange({ ...role, salaryRanges })
+      return
+    }
+
+    const range = { ...(previous ?? levelDefinition(level, levelRegistry).salaryRange), [bound]: Number(value) }
+    onChange({ ...role, salaryRanges: { ...salaryRanges, [level]: range } })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h4 className="font-medium">Role Settings</h4>
+        <input
+          value={role.name}
+          onChange={(e) => onChange({ ...role, name: e.target.value })}
+          className="px-2 py-1 text-sm border rounded"
+        />
+      </div>
+      <div className="border rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-muted">
+            <tr>
+              <th className="p-2 text-left">Level</th>
+              <th className="p-2 text-right">Growth g(ℓ) %</th>
+              <th className="p-2 text-right">Salary Min</th>
+              <th className="p-2 text-right">Salary Max</th>
+            </tr>
+          </thead>
+          <tbody>
+            {levels.map(level => {
+              const growthRate = role.growthRates[level]
+              const salaryRange = role.salaryRanges[level]
+              const defaults = levelDefinition(level, levelRegistry).salaryRange
+
+              return (
+                <tr key={level} className="border-t">
+                  <td className="p-2 font-medium">Level {level}</td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      step="0.05"
+                      value={growthRate === undefined ? '' : Number((growthRate * 100).toFixed(4))}
+                      placeholder={(growthFactor(level, growthModel) * 100).toFixed(2)}
+                      onChange={(e) => setGrowthRate(level, e.target.value)}
+                      className="w-full px-2 py-1 text-right text-xs border rounded"
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      step="500"
+                      value={salaryRange?.min ?? ''}
+                      placeholder={defaults.min.toLocaleString()}
+                      onChange={(e) => setSalaryBound(level, 'min', e.target.value)}
+                      className="w-full px-2 py-1 text-right text-xs border rounded"
+                    />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      step="500"
+                      value={salaryRange?.max ?? ''}
+                      placeholder={defaults.max.toLocaleString()}
+                      onChange={(e) => setSalaryBound(level, 'max', e.target.value)}
+                      className="w-full px-2 py-1 text-right text-xs border rounded"
+                    />
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
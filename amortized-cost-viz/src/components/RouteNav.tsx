@@ -0,0 +1,85 @@
+import { Link } from "@tanstack/react-router"
+import { Button } from "@/components/ui/button"
+import {
+  validateAmortizedCostSearch,
+  validateHeatmapSearch,
+  validateKeepOrReplaceSearch,
+  validateMarketDataSearch,
+  validateMaxHiringFeeSearch,
+  validateSalaryComparisonSearch,
+  validateValueForMoneySearch,
+} from "@/lib/search-params"
+
+interface RouteNavProps {
+  current: string
+  // Carried over to the other routes so they open on the same role, level and dataset
+  role?: string
+  level?: number
+  data?: string
+}
+
+// Links to every other route of the app
+export function RouteNav({ current, role, level, data }: RouteNavProps) {
+  const carried = { role, level, data }
+
+  return (
+    <>
+      {current !== "/" && (
+        <Link to="/" search={validateAmortizedCostSearch(carried)}>
+          <Button variant="outline" size="sm">
+            Time Analysis
+          </Button>
+        </Link>
+      )}
+      {current !== "/salary-comparison" && (
+        <Link to="/salary-comparison" search={validateSalaryComparisonSearch(carried)}>
+          <Button variant="outline" size="sm">
+            Salary Compare
+          </Button>
+        </Link>
+      )}
+      {current !== "/max-hiring-fee" && (
+        <Link to="/max-hiring-fee" search={validateMaxHiringFeeSearch(carried)}>
+          <Button variant="outline" size="sm">
+            Max Hiring Fee
+          </Button>
+        </Link>
+      )}
+      {current !== "/keep-or-replace" && (
+        <Link to="/keep-or-replace" search={validateKeepOrReplaceSearch(carried)}>
+          <Button variant="outline" size="sm">
+            Keep or Replace
+          </Button>
+        </Link>
+      )}
+      {current !== "/heatmap" && (
+        <Link to="/heatmap" search={validateHeatmapSearch(carried)}>
+          <Button variant="outline" size="sm">
+            Heatmap
+          </Button>
+        </Link>
+      )}
+      {current !== "/value-for-money" && (
+        <Link to="/value-for-money" search={validateValueForMoneySearch(carried)}>
+          <Button variant="outline" size="sm">
+            Value for Money
+          </Button>
+        </Link>
+      )}
+      {current !== "/market-data" && (
+        <Link to="/market-data" search={validateMarketDataSearch(carried)}>
+          <Button variant="outline" size="sm">
+            Market Data
+          </Button>
+        </Link>
+      )}
+      {current !== "/roster" && (
+        <Link to="/roster">
+          <Button variant="outline" size="sm">
+            Roster
+          </Button>
+        </Link>
+      )}
+    </>
+  )
+}
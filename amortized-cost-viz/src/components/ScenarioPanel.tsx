@@ -0,0 +1,159 @@
+import { ReactNode, useState } from "react"
+import { Save, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { OptimumSolution } from "@/lib/cost-model"
+import { MarketData, findRole } from "@/lib/roles"
+import { MAX_OVERLAID_SCENARIOS, Scenario, ScenarioParams, ScenarioResult, createScenario } from "@/lib/scenarios"
+import { useGrowthModel } from "@/hooks/use-growth-model"
+import { useScenarios } from "@/hooks/use-scenarios"
+
+function formatMoney(value: number) {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+function formatOptimum(solution: OptimumSolution) {
+  return solution.kind === 'minimum'
+    ? { week: `${solution.week}`, cost: `${formatMoney(solution.cost)}/week` }
+    : { week: 'None', cost: '-' }
+}
+
+interface ScenarioRowProps {
+  name: string
+  description: string
+  result: ScenarioResult
+  children?: ReactNode // Overlay checkbox
+  actions?: ReactNode
+}
+
+function ScenarioRow({ name, description, result, children, actions }: ScenarioRowProps) {
+  const optimum = formatOptimum(result.solution)
+  return (
+    <tr className="border-t">
+      <td className="p-2 w-8">{children}</td>
+      <td className="p-2">
+        <div className="font-medium">{name}</div>
+        <div className="text-xs text-muted-foreground">{description}</div>
+      </td>
+      <td className="p-2 text-right">{formatMoney(result.hiringFee)}</td>
+      <td className="p-2 text-right">{optimum.week}</td>
+      <td className="p-2 text-right">{optimum.cost}</td>
+      <td className="p-2 text-right">{formatMoney(result.totalCost)}</td>
+      <td className="p-2 text-right w-12">{actions}</td>
+    </tr>
+  )
+}
+
+interface ScenarioPanelProps {
+  params: ScenarioParams // The chart's own inputs, saved with the market data and growth model
+  marketData: MarketData
+  current: ScenarioResult
+  results: { scenario: Scenario; result: ScenarioResult }[]
+  horizon: number
+  overlaid: string[]
+  onOverlaidChange: (ids: string[]) => void
+}
+
+// Saves the chart's inputs under a name and compares saved scenarios side by side
+export function ScenarioPanel({ params, marketData, current, results, horizon, overlaid, onOverlaidChange }: ScenarioPanelProps) {
+  const { growthModel } = useGrowthModel()
+  const { setScenarios } = useScenarios()
+  const [name, setName] = useState("")
+
+  const describe = (scenario: ScenarioParams, data: MarketData) =>
+    `${findRole(data, scenario.role).name}, level ${scenario.level} at ${formatMoney(scenario.startingSalary)}`
+
+  const save = () => {
+    setScenarios(prev => [...prev, createScenario(name, params, marketData, growthModel)])
+    setName("")
+  }
+
+  const toggle = (id: string) => {
+    onOverlaidChange(overlaid.includes(id) ? overlaid.filter(other => other !== id) : [...overlaid, id])
+  }
+
+  const remove = (id: string) => {
+    setScenarios(prev => prev.filter(scenario => scenario.id !== id))
+    onOverlaidChange(overlaid.filter(other => other !== id))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scenarios</CardTitle>
+        <CardDescription>
+          Save the current inputs, market data and growth model under a name; overlay up to {MAX_OVERLAID_SCENARIOS} saved scenarios on the chart. Totals cover {horizon} weeks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder={`Level ${params.level} at ${formatMoney(params.startingSalary)}`}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            className="flex-1 px-3 py-2 border rounded-md text-sm"
+          />
+          <Button variant="outline" onClick={save}>
+            <Save className="h-3 w-3" />
+            Save Scenario
+          </Button>
+        </div>
+
+        <div className="border rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="p-2"></th>
+                <th className="p-2 text-left">Scenario</th>
+                <th className="p-2 text-right">Hiring Fee</th>
+                <th className="p-2 text-right">Optimal Week</th>
+                <th className="p-2 text-right">Optimal Cost</th>
+                <th className="p-2 text-right">Total over {horizon} weeks</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              <ScenarioRow name="Current" description={describe(params, marketData)} result={current} />
+              {results.map(({ scenario, result }) => (
+                <ScenarioRow
+                  key={scenario.id}
+                  name={scenario.name}
+                  description={`${describe(scenario.params, scenario.marketData)}, saved ${new Date(scenario.savedAt).toLocaleDateString()}`}
+                  result={result}
+                  actions={(
+                    <Button variant="ghost" size="sm" onClick={() => remove(scenario.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    title="Overlay on the chart"
+                    checked={overlaid.includes(scenario.id)}
+                    disabled={!overlaid.includes(scenario.id) && overlaid.length >= MAX_OVERLAID_SCENARIOS}
+                    onChange={() => toggle(scenario.id)}
+                  />
+                </ScenarioRow>
+              ))}
+              {results.length === 0 && (
+                <tr className="border-t">
+                  <td colSpan={7} className="p-4 text-center text-muted-foreground">
+                    No saved scenarios yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
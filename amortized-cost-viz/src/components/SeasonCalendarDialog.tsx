@@ -0,0 +1,73 @@
+import { CalendarDays } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { currentSeasonWeek, formatSeasonWeek } from "@/lib/season-calendar"
+import { useSeasonCalendar } from "@/hooks/use-season-calendar"
+
+// Settings for the game calendar that time axes and durations are shown in
+export function SeasonCalendarDialog() {
+  const { calendar, setCalendar, resetCalendar } = useSeasonCalendar()
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Season calendar">
+          <CalendarDays className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Season Calendar</DialogTitle>
+          <DialogDescription>
+            Today is {formatSeasonWeek(currentSeasonWeek(calendar))}. Hires default to the current week.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div className="space-y-2">
+            <label className="font-medium">Season Length (weeks)</label>
+            <input
+              type="number"
+              min="1"
+              value={calendar.seasonLength}
+              onChange={(e) => setCalendar(prev => ({ ...prev, seasonLength: Math.max(1, Math.round(Number(e.target.value))) }))}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="font-medium">Current Season</label>
+            <input
+              type="number"
+              min="1"
+              value={calendar.currentSeason}
+              onChange={(e) => setCalendar(prev => ({ ...prev, currentSeason: Math.max(1, Math.round(Number(e.target.value))) }))}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="font-medium">Current Week</label>
+            <input
+              type="number"
+              min="1"
+              max={calendar.seasonLength}
+              value={calendar.currentWeek}
+              onChange={(e) => setCalendar(prev => ({ ...prev, currentWeek: Math.max(1, Math.round(Number(e.target.value))) }))}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+        </div>
+
+        <Button variant="outline" onClick={resetCalendar}>
+          Reset Calendar
+        </Button>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,188 @@
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { OptimumSolution } from "@/lib/cost-model"
+import {
+  DEFAULT_SENSITIVITY_CHANGES,
+  SENSITIVITY_INPUTS,
+  SensitivityBase,
+  SensitivityInput,
+  analyzeSensitivity,
+  solveSensitivityBase,
+} from "@/lib/sensitivity"
+
+type SensitivityMetric = 'cost' | 'week'
+
+interface TornadoBar {
+  label: string
+  low: number | null // % change of the metric when the input is lowered
+  high: number | null
+}
+
+const chartConfig = {
+  low: {
+    label: "Input lowered",
+    color: "var(--chart-2)",
+  },
+  high: {
+    label: "Input raised",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig
+
+const BAR_SIZE = 18
+
+function metricValue(solution: OptimumSolution, metric: SensitivityMetric): number | null {
+  if (solution.kind !== 'minimum') return null
+  return metric === 'cost' ? solution.cost : solution.week
+}
+
+function formatMetric(solution: OptimumSolution, metric: SensitivityMetric): string {
+  const value = metricValue(solution, metric)
+  if (value === null) return 'No optimum'
+  return metric === 'cost' ? `$${Math.round(value).toLocaleString()}/week` : `${value} weeks`
+}
+
+function formatElasticity(value: number | null): string {
+  return value === null ? '-' : value.toFixed(2)
+}
+
+interface SensitivityPanelProps {
+  base: SensitivityBase
+}
+
+// Tornado chart and elasticities of the optimum for the time analysis inputs
+export function SensitivityPanel({ base }: SensitivityPanelProps) {
+  const [changes, setChanges] = useState(DEFAULT_SENSITIVITY_CHANGES)
+  const [metric, setMetric] = useState<SensitivityMetric>('cost')
+
+  const baseSolution = useMemo(() => solveSensitivityBase(base), [base])
+  const results = useMemo(() => analyzeSensitivity(base, changes), [base, changes])
+
+  const tornado = useMemo(() => {
+    const baseValue = metricValue(baseSolution, metric)
+    const percentChange = (solution: OptimumSolution) => {
+      const value = metricValue(solution, metric)
+      return baseValue === null || value === null ? null : ((value - baseValue) / baseValue) * 100
+    }
+    return results.map((result): TornadoBar => ({
+      label: `${result.label} ±${Math.round(result.change * 100)}%`,
+      low: percentChange(result.low),
+      high: percentChange(result.high),
+    }))
+  }, [results, baseSolution, metric])
+
+  const setChange = (input: SensitivityInput, percent: number) => {
+    setChanges(prev => ({ ...prev, [input]: Math.min(0.9, Math.max(0.01, percent / 100)) }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Sensitivity of the Optimum</CardTitle>
+            <CardDescription>
+              Each input moved down and up on its own; base optimum {formatMetric(baseSolution, metric)}
+            </CardDescription>
+          </div>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as SensitivityMetric)}
+            className="px-3 py-2 border rounded-md text-sm bg-background"
+          >
+            <option value="cost">Optimal weekly cost</option>
+            <option value="week">Optimal week</option>
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          {SENSITIVITY_INPUTS.map(({ input, label }) => (
+            <div key={input} className="space-y-2">
+              <label className="font-medium">{label} ±%</label>
+              <input
+                type="number"
+                min="1"
+                max="90"
+                value={Math.round(changes[input] * 100)}
+                onChange={(e) => setChange(input, Number(e.target.value))}
+                className="w-full px-3 py-2 border rounded-md"
+              />
+            </div>
+          ))}
+        </div>
+
+        {metricValue(baseSolution, metric) === null ? (
+          <p className="text-sm text-muted-foreground">
+            There is no optimum within the horizon at the base inputs, so there is nothing to compare against.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <BarChart data={tornado} layout="vertical" barGap={-BAR_SIZE} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis
+                type="number"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value) => `${value > 0 ? '+' : ''}${Number(value).toFixed(0)}%`}
+              />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={170} />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent />}
+                formatter={(value, name) => [
+                  `${Number(value) > 0 ? '+' : ''}${Number(value).toFixed(1)}%`,
+                  chartConfig[name as keyof typeof chartConfig]?.label || name
+                ]}
+              />
+              <ReferenceLine x={0} stroke="var(--muted-foreground)" />
+              <Bar dataKey="low" fill="var(--color-low)" barSize={BAR_SIZE} radius={2} isAnimationActive={false} />
+              <Bar dataKey="high" fill="var(--color-high)" barSize={BAR_SIZE} radius={2} isAnimationActive={false} />
+            </BarChart>
+          </ChartContainer>
+        )}
+
+        <div className="border rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="p-2 text-left">Input</th>
+                <th className="p-2 text-right">Lowered</th>
+                <th className="p-2 text-right">Raised</th>
+                <th className="p-2 text-right">Cost elasticity</th>
+                <th className="p-2 text-right">Week elasticity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => (
+                <tr key={result.input} className="border-t">
+                  <td className="p-2 font-medium">{result.label}</td>
+                  <td className="p-2 text-right">{formatMetric(result.low, metric)}</td>
+                  <td className="p-2 text-right">{formatMetric(result.high, metric)}</td>
+                  <td className="p-2 text-right">{formatElasticity(result.costElasticity)}</td>
+                  <td className="p-2 text-right">{formatElasticity(result.weekElasticity)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Elasticity: % change of the continuous optimum per 1% change of the input. Changing S keeps the base hiring fee.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
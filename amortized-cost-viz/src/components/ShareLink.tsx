@@ -0,0 +1,96 @@
+import { useState } from "react"
+import { Check, Link as LinkIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useGrowthModel } from "@/hooks/use-growth-model"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+import { useMarketData } from "@/hooks/use-market-data"
+import { useSeasonCalendar } from "@/hooks/use-season-calendar"
+import { useTargetCosts } from "@/hooks/use-target-costs"
+import { decodeMarketData, encodeMarketData } from "@/lib/search-params"
+
+// Copies the current URL, with the market data and settings being shown attached as `data=`
+export function ShareLinkButton() {
+  const { marketData } = useMarketData()
+  const { growthModel } = useGrowthModel()
+  const { calendar } = useSeasonCalendar()
+  const { levelRegistry } = useLevelRegistry()
+  const { targetCostSettings } = useTargetCosts()
+  const [copied, setCopied] = useState(false)
+
+  const copyLink = async () => {
+    const url = new URL(window.location.href)
+    // A link that already carries shared data is passed on unchanged
+    if (!url.searchParams.has('data')) {
+      url.searchParams.set('data', encodeMarketData({
+        marketData,
+        growthModel,
+        calendar,
+        levelRegistry,
+        targetCosts: targetCostSettings,
+      }))
+    }
+    try {
+      await navigator.clipboard.writeText(url.toString())
+    } catch {
+      // No clipboard access (insecure context or permission denied): show the link, selected, to copy by hand
+      window.prompt('Copy this link:', url.toString())
+      return
+    }
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={copyLink}>
+      {copied ? <Check className="h-3 w-3" /> : <LinkIcon className="h-3 w-3" />}
+      {copied ? 'Copied' : 'Share Link'}
+    </Button>
+  )
+}
+
+interface SharedDataBannerProps {
+  data?: string
+  onClose: () => void
+}
+
+// Shown while a chart plots market data from a shared link instead of the user's own
+export function SharedDataBanner({ data, onClose }: SharedDataBannerProps) {
+  const { setMarketData } = useMarketData()
+  const { setGrowthModel } = useGrowthModel()
+  const { setCalendar } = useSeasonCalendar()
+  const { setLevelRegistry } = useLevelRegistry()
+  const { setTargetCosts } = useTargetCosts()
+  if (!data) return null
+
+  const shared = decodeMarketData(data)
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border px-4 py-3 text-sm">
+      <div>
+        {shared
+          ? `Showing market data${shared.growthModel || shared.calendar ? ' and settings' : ''} from a shared link. Edits to your own data will not appear until you leave it.`
+          : 'The market data in this link could not be read, so your own data is shown.'}
+      </div>
+      <div className="flex gap-2">
+        {shared && (
+          <Button
+            size="sm"
+            onClick={() => {
+              setMarketData(shared.marketData)
+              if (shared.growthModel) setGrowthModel(shared.growthModel)
+              if (shared.calendar) setCalendar(shared.calendar)
+              if (shared.levelRegistry) setLevelRegistry(shared.levelRegistry)
+              if (shared.targetCosts) setTargetCosts(shared.targetCosts)
+              onClose()
+            }}
+          >
+            Save as My Data
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Use My Data
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+import { useMemo, useState } from "react"
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Plus, Trash2 } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { Button } from "@/components/ui/button"
+import { GrowthModelDialog } from "@/components/GrowthModelDialog"
+import { HiringCostDialog } from "@/components/HiringCostDialog"
+import { LevelRegistryDialog } from "@/components/LevelRegistryDialog"
+import { SeasonCalendarDialog } from "@/components/SeasonCalendarDialog"
+import { RoleSelect } from "@/components/RoleSelect"
+import { describeGrowthModel, generateHiringFormula } from "@/lib/cost-model"
+import { findRole, roleGrowthModel, roleHiringData } from "@/lib/roles"
+import {
+  StaffMember,
+  createStaffMember,
+  projectStaffSpend,
+  summarizeStaffMember,
+  totalWeeklySpend,
+} from "@/lib/roster"
+import { useGrowthModel } from "@/hooks/use-growth-model"
+import { useMarketData } from "@/hooks/use-market-data"
+import { useRoster } from "@/hooks/use-roster"
+import { useSeasonCalendar } from "@/hooks/use-season-calendar"
+import { addWeeks, currentSeasonWeek, formatSeasonWeek } from "@/lib/season-calendar"
+
+const colors = ["--chart-1", "--chart-2", "--chart-3", "--chart-4", "--chart-5"]
+
+function formatMoney(value: number) {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+export function StaffRoster() {
+  const { marketData } = useMarketData()
+  const { growthModel } = useGrowthModel()
+  const { roster, setRoster } = useRoster()
+  const [projectionWeeks, setProjectionWeeks] = useState(26)
+  const { calendar } = useSeasonCalendar()
+
+  // The roster's week counter is lined up with the calendar's current week
+  const toSeasonWeek = (week: number) => formatSeasonWeek(addWeeks(calendar, currentSeasonWeek(calendar), week - roster.currentWeek))
+
+  // Every member is costed with their own role's market data and growth
+  const roleModels = useMemo(() => {
+    return new Map(marketData.roles.map(role => [role.id, {
+      hiringFormula: generateHiringFormula(roleHiringData(marketData, role.id, calendar), role.feeModels),
+      growth: roleGrowthModel(role, growthModel),
+    }]))
+  }, [marketData, growthModel, calendar])
+
+  const summaries = useMemo(() => {
+    return roster.members.map(member => {
+      const { hiringFormula, growth } = roleModels.get(findRole(marketData, member.roleId).id)!
+      return summarizeStaffMember(member, roster.currentWeek, hiringFormula, growth)
+    })
+  }, [roster, marketData, roleModels])
+
+  const projection = useMemo(() => {
+    return projectStaffSpend(roster, projectionWeeks, member => roleModels.get(findRole(marketData, member.roleId).id)!.growth)
+  }, [roster, projectionWeeks, marketData, roleModels])
+
+  const chartConfig = useMemo(() => {
+    const config: ChartConfig = {}
+    roster.members.forEach((member, index) => {
+      config[member.id] = {
+        label: member.name,
+        color: `var(${colors[index % colors.length]})`,
+      }
+    })
+    return config
+  }, [roster.members])
+
+  const updateMember = (id: string, changes: Partial<StaffMember>) => {
+    setRoster(prev => ({
+      ...prev,
+      members: prev.members.map(member => member.id === id ? { ...member, ...changes } : member),
+    }))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Current Week</label>
+          <input
+            type="number"
+            min="0"
+            value={roster.currentWeek}
+            onChange={(e) => setRoster(prev => ({ ...prev, currentWeek: Number(e.target.value) }))}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Projection (weeks)</label>
+          <input
+            type="number"
+            min="1"
+            max="104"
+            value={projectionWeeks}
+            onChange={(e) => setProjectionWeeks(Number(e.target.value))}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div className="flex items-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setRoster(prev => ({
+              ...prev,
+              members: [...prev.members, createStaffMember(prev.currentWeek, prev.members.length)],
+            }))}
+          >
+            <Plus className="h-3 w-3" />
+            Add Staff Member
+          </Button>
+          <HiringCostDialog />
+          <GrowthModelDialog />
+          <LevelRegistryDialog />
+          <SeasonCalendarDialog />
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-muted">
+            <tr>
+              <th className="p-2 text-left">Name</th>
+              <th className="p-2 text-left">Role</th>
+              <th className="p-2 text-left">Level</th>
+              <th className="p-2 text-right">Starting Salary</th>
+              <th className="p-2 text-right">Hire Week</th>
+              <th className="p-2 text-right">Hiring Fee</th>
+              <th className="p-2 text-right">Current Salary</th>
+              <th className="p-2 text-right">Amortized Cost to Date</th>
+              <th className="p-2 text-right">Replace at Week</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(({ member, weeksEmployed, currentSalary, hiringFee, amortizedCostToDate, replaceAtWeek }) => (
+              <tr key={member.id} className="border-t">
+                <td className="p-2">
+                  <input
+                    value={member.name}
+                    onChange={(e) => updateMember(member.id, { name: e.target.value })}
+                    className="w-full px-2 py-1 text-xs border rounded"
+                  />
+                </td>
+                <td className="p-2">
+                  <RoleSelect
+                    roles={marketData.roles}
+                    value={findRole(marketData, member.roleId).id}
+                    onChange={(roleId) => updateMember(member.id, { roleId })}
+                    className="px-2 py-1 text-xs border rounded bg-background"
+                  />
+                </td>
+                <td className="p-2">
+                  <select
+                    value={member.level}
+                    onChange={(e) => updateMember(member.id, { level: Number(e.target.value) })}
+                    className="px-2 py-1 text-xs border rounded bg-background"
+                  >
+                    {[1, 2, 3, 4, 5, 6, 7].map(level => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="p-2">
+                  <input
+                    type="number"
+                    step="500"
+                    value={member.startingSalary}
+                    onChange={(e) => updateMember(member.id, { startingSalary: Number(e.target.value) })}
+                    className="w-24 px-2 py-1 text-right text-xs border rounded"
+                  />
+                </td>
+                <td className="p-2">
+                  <input
+                    type="number"
+                    value={member.hireWeek}
+                    onChange={(e) => updateMember(member.id, { hireWeek: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 text-right text-xs border rounded"
+                  />
+                </td>
+                <td className="p-2">
+                  <input
+                    type="number"
+                    step="1000"
+                    value={member.hiringFee ?? ''}
+                    placeholder={formatMoney(hiringFee)}
+                    onChange={(e) => updateMember(member.id, { hiringFee: e.target.value ? Number(e.target.value) : null })}
+                    className="w-24 px-2 py-1 text-right text-xs border rounded"
+                  />
+                </td>
+                <td className="p-2 text-right">{formatMoney(currentSalary)}</td>
+                <td className="p-2 text-right">
+                  {amortizedCostToDate !== null ? `${formatMoney(amortizedCostToDate)}/week` : '-'}
+                  <div className="text-xs text-muted-foreground">{weeksEmployed} weeks employed</div>
+                </td>
+                <td className="p-2 text-right">
+                  {replaceAtWeek === null ? '-' : replaceAtWeek === roster.currentWeek ? 'Now' : `Week ${replaceAtWeek}`}
+                  {replaceAtWeek !== null && replaceAtWeek !== roster.currentWeek && (
+                    <div className="text-xs text-muted-foreground">{toSeasonWeek(replaceAtWeek)}</div>
+                  )}
+                </td>
+                <td className="p-2 text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRoster(prev => ({
+                      ...prev,
+                      members: prev.members.filter(m => m.id !== member.id),
+                    }))}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+            {summaries.length === 0 && (
+              <tr className="border-t">
+                <td colSpan={10} className="p-4 text-center text-muted-foreground">
+                  No staff members yet
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {summaries.length > 0 && (
+            <tfoot className="border-t bg-muted">
+              <tr>
+                <td colSpan={6} className="p-2 font-medium">Total Weekly Staff Spend</td>
+                <td className="p-2 text-right font-medium">{formatMoney(totalWeeklySpend(summaries))}</td>
+                <td colSpan={3} />
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Projected Staff Spend</CardTitle>
+          <CardDescription>
+            Weekly salary of each staff member over the next {projectionWeeks} weeks if everyone is kept ({describeGrowthModel(growthModel)})
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig}>
+            <AreaChart
+              accessibilityLayer
+              data={projection}
+              margin={{
+                left: 12,
+                right: 12,
+              }}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="week"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => toSeasonWeek(value)}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => `$${value.toLocaleString()}`}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent />}
+                formatter={(value, name) => [
+                  formatMoney(Number(value)),
+                  chartConfig[name as string]?.label || name
+                ]}
+                labelFormatter={(label) => `${toSeasonWeek(Number(label))} (week ${label})`}
+              />
+              {roster.members.map(member => (
+                <Area
+                  key={member.id}
+                  dataKey={member.id}
+                  type="monotone"
+                  stackId="spend"
+                  stroke={`var(--color-${member.id})`}
+                  fill={`var(--color-${member.id})`}
+                  fillOpacity={0.4}
+                />
+              ))}
+            </AreaChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { useState } from "react"
+import { Plus, RotateCcw, Wand2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+const TARGET_STEP = 500
+
+// Commits on blur or Enter, so the list is not re-sorted while typing
+function TargetInput({ cost, color, onCommit, onRemove }: {
+  cost: number
+  color: string
+  onCommit: (cost: number) => void
+  onRemove: () => void
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft !== null && draft !== '' && Number(draft) !== cost) onCommit(Number(draft))
+    setDraft(null)
+  }
+
+  return (
+    <div className="flex items-center gap-1 border rounded-md pl-2">
+      <span className="inline-block h-0.5 w-3" style={{ backgroundColor: color }} />
+      <span className="text-xs text-muted-foreground">$</span>
+      <input
+        type="number"
+        step={TARGET_STEP}
+        min="0"
+        value={draft ?? cost}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit()
+        }}
+        className="w-20 py-1 text-right text-sm bg-transparent"
+      />
+      <Button variant="ghost" size="sm" className="h-7 w-7 px-0" onClick={onRemove} title="Remove target">
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+}
+
+interface TargetCostEditorProps {
+  targets: number[]
+  colors: string[] // One per target, as drawn on the chart
+  isCustom: boolean // The level's targets were edited by the user
+  canGenerate: boolean // The level has market data to generate targets from
+  onChange: (targets: number[]) => void
+  onGenerate: () => void
+  onReset: () => void
+}
+
+// Adds, removes and edits the target weekly costs of one level
+export function TargetCostEditor({ targets, colors, isCustom, canGenerate, onChange, onGenerate, onReset }: TargetCostEditorProps) {
+  const add = () => {
+    const last = targets[targets.length - 1]
+    onChange([...targets, last === undefined ? 10000 : last + TARGET_STEP * 2])
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium">Target costs per week:</span>
+      {targets.map((cost, index) => (
+        <TargetInput
+          key={cost}
+          cost={cost}
+          color={colors[index]}
+          onCommit={(next) => onChange(targets.map(other => (other === cost ? next : other)))}
+          onRemove={() => onChange(targets.filter(other => other !== cost))}
+        />
+      ))}
+      <Button variant="outline" size="sm" onClick={add}>
+        <Plus className="h-3 w-3" />
+        Add
+      </Button>
+      <Button variant="outline" size="sm" onClick={onGenerate} disabled={!canGenerate} title="Percentiles of the optimal cost across the salary range">
+        <Wand2 className="h-3 w-3" />
+        From Market Data
+      </Button>
+      {isCustom && (
+        <Button variant="ghost" size="sm" onClick={onReset}>
+          <RotateCcw className="h-3 w-3" />
+          Reset
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+import { useMemo } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis, Legend } from "recharts"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { GrowthModelDialog } from "@/components/GrowthModelDialog"
+import { HiringCostDialog } from "@/components/HiringCostDialog"
+import { LevelRegistryDialog } from "@/components/LevelRegistryDialog"
+import { SeasonCalendarDialog } from "@/components/SeasonCalendarDialog"
+import { RoleSelect } from "@/components/RoleSelect"
+import {
+  BenefitKind,
+  ValueForMoney,
+  defaultBenefit,
+  describeBenefitUnit,
+  rankValueForMoney,
+  valueForMoney,
+} from "@/lib/benefit"
+import { STAFF_LEVELS, describeGrowthModel, generateHiringFormula } from "@/lib/cost-model"
+import { roleSalaryRange, salarySweep } from "@/lib/roles"
+import { levelDefinition } from "@/lib/levels"
+import { useBenefitModel } from "@/hooks/use-benefit-model"
+import { useChartMarketData } from "@/hooks/use-market-data"
+import { ValueForMoneyParams, ValueForMoneySearch, ParamsChangeOptions } from "@/lib/search-params"
+
+interface CostPerBenefitPoint {
+  salary: number
+  [levelKey: string]: number // "level3": cost per unit of benefit at this salary
+}
+
+// Rows of the overall ranking
+const TOP_OPTIONS = 10
+
+const colors = ["--chart-1", "--chart-2", "--chart-3", "--chart-4", "--chart-5"]
+
+function formatMoney(value: number) {
+  return `$${Math.round(value).toLocaleString()}`
+}
+
+function formatCostPerBenefit(value: number) {
+  return value < 10 ? `$${value.toFixed(2)}` : formatMoney(value)
+}
+
+interface ValueForMoneyChartProps {
+  params: ValueForMoneySearch
+  onParamsChange: (changes: Partial<ValueForMoneyParams>, options?: ParamsChangeOptions) => void
+}
+
+// Compares levels by the optimal amortized cost per unit of benefit
+export function ValueForMoneyChart({ params, onParamsChange }: ValueForMoneyChartProps) {
+  const { roles, role, hiringData, growth, levelRegistry } = useChartMarketData(params.data, params.role)
+  const { benefitModel, setBenefitModel, resetBenefitModel } = useBenefitModel()
+
+  const hiringFormula = useMemo(() => generateHiringFormula(hiringData, role.feeModels), [hiringData, role.feeModels])
+  const levels = STAFF_LEVELS.filter(level => hiringFormula.parameters[level])
+
+  // Every level's optima across its salary range
+  const options = useMemo(() => {
+    return levels.flatMap(level => salarySweep(roleSalaryRange(role, level, levelRegistry), levelDefinition(level, levelRegistry).sweepStep)
+      .map(salary => valueForMoney(salary, level, hiringFormula, growth, benefitModel, levelRegistry))
+      .filter((option): option is ValueForMoney => option !== null))
+  }, [levels.join(','), role, levelRegistry, hiringFormula, growth, benefitModel])
+
+  const ranked = useMemo(() => rankValueForMoney(options), [options])
+  const bestPerLevel = useMemo(() => {
+    return levels
+      .map(level => ranked.find(option => option.level === level))
+      .filter((option): option is ValueForMoney => !!option)
+  }, [levels.join(','), ranked])
+  const overallBest = ranked[0]
+
+  const chartConfig = useMemo(() => {
+    const config: ChartConfig = {}
+    levels.forEach((level, index) => {
+      config[`level${level}`] = { label: `Level ${level}`, color: `var(${colors[index % colors.length]})` }
+    })
+    return config
+  }, [levels.join(',')])
+
+  const chartData = useMemo(() => {
+    const bySalary = new Map<number, CostPerBenefitPoint>()
+    for (const option of options) {
+      const point = bySalary.get(option.salary) ?? { salary: option.salary }
+      point[`level${option.level}`] = option.costPerBenefit
+      bySalary.set(option.salary, point)
+    }
+    return [...bySalary.values()].sort((a, b) => a.salary - b.salary)
+  }, [options])
+
+  const setBenefit = (level: number, value: string) => {
+    setBenefitModel(prev => {
+      const { [level]: _previous, ...benefits } = prev.benefits
+      return { ...prev, benefits: value === '' ? benefits : { ...benefits, [level]: Number(value) } }
+    })
+  }
+
+  const unit = describeBenefitUnit(benefitModel)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Role</label>
+          <RoleSelect roles={roles} value={role.id} onChange={(roleId) => onParamsChange({ role: roleId })} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Benefit</label>
+          <select
+            value={benefitModel.kind}
+            onChange={(e) => setBenefitModel(prev => ({ ...prev, kind: e.target.value as BenefitKind }))}
+            className="w-full px-3 py-2 border rounded-md bg-background"
+          >
+            <option value="effect">Relative effect per level</option>
+            <option value="value">Value in $ per week</option>
+          </select>
+        </div>
+        <div className="flex items-end gap-2">
+          <HiringCostDialog roleId={role.id} />
+          <GrowthModelDialog />
+          <LevelRegistryDialog />
+          <SeasonCalendarDialog />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm">
+            {benefitModel.kind === 'value' ? 'Value per Week ($)' : 'Relative Effect'} by Level
+          </h4>
+          <Button variant="outline" size="sm" onClick={resetBenefitModel}>
+            Reset Benefits
+          </Button>
+        </div>
+        <div className="grid grid-cols-4 md:grid-cols-7 gap-2 text-sm">
+          {STAFF_LEVELS.map(level => (
+            <div key={level} className="space-y-1">
+              <label className="text-xs text-muted-foreground">Level {level}</label>
+              <input
+                type="number"
+                min="0"
+                step={benefitModel.kind === 'value' ? '500' : '0.5'}
+                value={benefitModel.benefits[level] ?? ''}
+                placeholder={String(defaultBenefit(level, benefitModel.kind, levelRegistry))}
+                onChange={(e) => setBenefit(level, e.target.value)}
+                className="w-full px-2 py-1 text-right border rounded"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {overallBest && (
+        <div className="text-sm">
+          <strong>Best Value:</strong> Level {overallBest.level} at {formatMoney(overallBest.salary)},{' '}
+          {formatCostPerBenefit(overallBest.costPerBenefit)} per {unit} per week
+          ({formatMoney(overallBest.optimalCost)}/week for {overallBest.optimalWeeks} weeks)
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost per Unit of Benefit</CardTitle>
+          <CardDescription>
+            Optimal amortized cost divided by the level's benefit, per {unit} ({describeGrowthModel(growth)}). Lower is better.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig}>
+            <LineChart accessibilityLayer data={chartData} margin={{ left: 12, right: 12, bottom: 24 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="salary"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => formatCostPerBenefit(Number(value))}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent />}
+                formatter={(value, name) => [
+                  `${formatCostPerBenefit(Number(value))} per ${unit}`,
+                  chartConfig[name as string]?.label || name
+                ]}
+                labelFormatter={(_, payload) => {
+                  const salary = payload?.[0]?.payload?.salary
+                  return salary ? `Salary: ${formatMoney(salary)}` : 'Salary: --'
+                }}
+              />
+              <Legend verticalAlign="bottom" />
+              {levels.map(level => (
+                <Line
+                  key={level}
+                  dataKey={`level${level}`}
+                  type="monotone"
+                  stroke={`var(--color-level${level})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm">Best Salary per Level</h4>
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="p-2 text-left">Level</th>
+                  <th className="p-2 text-right">Salary</th>
+                  <th className="p-2 text-right">Optimal Cost</th>
+                  <th className="p-2 text-right">Cost per Unit</th>
+                  <th className="p-2 text-right">vs Best</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bestPerLevel.map(option => (
+                  <tr key={option.level} className="border-t">
+                    <td className="p-2 font-medium">Level {option.level}</td>
+                    <td className="p-2 text-right">{formatMoney(option.salary)}</td>
+                    <td className="p-2 text-right">{formatMoney(option.optimalCost)}/week</td>
+                    <td className="p-2 text-right">{formatCostPerBenefit(option.costPerBenefit)}</td>
+                    <td className="p-2 text-right">
+                      {option === overallBest ? 'Best' : `+${((option.costPerBenefit / overallBest.costPerBenefit - 1) * 100).toFixed(0)}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm">Top {TOP_OPTIONS} Options</h4>
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="p-2 text-left">#</th>
+                  <th className="p-2 text-left">Level</th>
+                  <th className="p-2 text-right">Salary</th>
+                  <th className="p-2 text-right">Weeks</th>
+                  <th className="p-2 text-right">Cost per Unit</th>
+                  {benefitModel.kind === 'value' && <th className="p-2 text-right">ROI</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.slice(0, TOP_OPTIONS).map((option, index) => (
+                  <tr key={`${option.level}:${option.salary}`} className="border-t">
+                    <td className="p-2">{index + 1}</td>
+                    <td className="p-2">Level {option.level}</td>
+                    <td className="p-2 text-right">{formatMoney(option.salary)}</td>
+                    <td className="p-2 text-right">{option.optimalWeeks}</td>
+                    <td className="p-2 text-right">{formatCostPerBenefit(option.costPerBenefit)}</td>
+                    {benefitModel.kind === 'value' && (
+                      <td className="p-2 text-right">{option.roi === null ? '-' : `${(option.roi * 100).toFixed(0)}%`}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react"
+import {
+  getBenefitModel,
+  getServerBenefitModel,
+  resetBenefitModel,
+  setBenefitModel,
+  subscribeBenefitModel,
+} from "@/lib/benefit-model-store"
+
+// Shared, persisted per-level benefit model
+export function useBenefitModel() {
+  const benefitModel = useSyncExternalStore(subscribeBenefitModel, getBenefitModel, getServerBenefitModel)
+
+  return {
+    benefitModel,
+    setBenefitModel,
+    resetBenefitModel,
+  }
+}
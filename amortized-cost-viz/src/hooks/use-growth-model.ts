@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react"
+import {
+  getGrowthModel,
+  getServerGrowthModel,
+  resetGrowthModel,
+  setGrowthModel,
+  subscribeGrowthModel,
+} from "@/lib/growth-model-store"
+
+// Shared, persisted growth model settings
+export function useGrowthModel() {
+  const growthModel = useSyncExternalStore(subscribeGrowthModel, getGrowthModel, getServerGrowthModel)
+
+  return {
+    growthModel,
+    setGrowthModel,
+    resetGrowthModel,
+  }
+}
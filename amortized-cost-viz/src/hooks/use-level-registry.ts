@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react"
+import {
+  getLevelRegistry,
+  getServerLevelRegistry,
+  resetLevelRegistry,
+  setLevelRegistry,
+  subscribeLevelRegistry,
+} from "@/lib/level-registry-store"
+
+// Shared, persisted level registry
+export function useLevelRegistry() {
+  const levelRegistry = useSyncExternalStore(subscribeLevelRegistry, getLevelRegistry, getServerLevelRegistry)
+
+  return {
+    levelRegistry,
+    setLevelRegistry,
+    resetLevelRegistry,
+  }
+}
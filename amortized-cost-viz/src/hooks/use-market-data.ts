@@ -0,0 +1,60 @@
+import { useMemo, useSyncExternalStore } from "react"
+import {
+  getMarketData,
+  getServerMarketData,
+  resetMarketData,
+  setMarketData,
+  subscribeMarketData,
+} from "@/lib/market-data-store"
+import { useGrowthModel } from "@/hooks/use-growth-model"
+import { useLevelRegistry } from "@/hooks/use-level-registry"
+import { useSeasonCalendar } from "@/hooks/use-season-calendar"
+import { useTargetCosts } from "@/hooks/use-target-costs"
+import { findRole, roleGrowthModel, roleHiringData } from "@/lib/roles"
+import { decodeMarketData } from "@/lib/search-params"
+
+// Shared, persisted market data (every role) for all routes
+export function useMarketData() {
+  const marketData = useSyncExternalStore(subscribeMarketData, getMarketData, getServerMarketData)
+
+  return {
+    marketData,
+    setMarketData,
+    resetMarketData,
+  }
+}
+
+// Market data a chart should plot: the dataset carried by a shared link
+// (the `data` search param) when present and valid, otherwise the user's own,
+// narrowed to one role, its growth model and its fee uncertainty. The
+// settings the link carries (growth model, season calendar, level registry,
+// target costs) replace the user's own as well.
+export function useChartMarketData(encoded: string | undefined, roleId: string) {
+  const { marketData: ownData } = useMarketData()
+  const { growthModel } = useGrowthModel()
+  const { calendar: ownCalendar } = useSeasonCalendar()
+  const { levelRegistry: ownRegistry } = useLevelRegistry()
+  const { targetCostSettings: ownTargetCosts } = useTargetCosts()
+  const shared = useMemo(() => (encoded ? decodeMarketData(encoded) : null), [encoded])
+  const marketData = shared?.marketData ?? ownData
+  const baseGrowth = shared?.growthModel ?? growthModel
+  const calendar = shared?.calendar ?? ownCalendar
+
+  const role = findRole(marketData, roleId)
+  const hiringData = useMemo(() => roleHiringData(marketData, role.id, calendar), [marketData, role.id, calendar])
+  const growth = useMemo(() => roleGrowthModel(role, baseGrowth), [role, baseGrowth])
+  const uncertainty = useMemo(() => marketData.feeUncertainty[role.id] ?? {}, [marketData, role.id])
+
+  return {
+    marketData,
+    roles: marketData.roles,
+    role,
+    hiringData,
+    growth,
+    uncertainty,
+    calendar,
+    levelRegistry: shared?.levelRegistry ?? ownRegistry,
+    targetCostSettings: shared?.targetCosts ?? ownTargetCosts,
+    isShared: shared !== null,
+  }
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react"
+import { getRoster, getServerRoster, setRoster, subscribeRoster } from "@/lib/roster-store"
+
+// Shared, persisted staff roster
+export function useRoster() {
+  const roster = useSyncExternalStore(subscribeRoster, getRoster, getServerRoster)
+
+  return {
+    roster,
+    setRoster,
+  }
+}
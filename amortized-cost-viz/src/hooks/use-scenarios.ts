@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react"
+import { getScenarios, getServerScenarios, setScenarios, subscribeScenarios } from "@/lib/scenario-store"
+
+// Shared, persisted named scenarios
+export function useScenarios() {
+  const scenarios = useSyncExternalStore(subscribeScenarios, getScenarios, getServerScenarios)
+
+  return {
+    scenarios,
+    setScenarios,
+  }
+}
@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react"
+import {
+  getSeasonCalendar,
+  getServerSeasonCalendar,
+  resetSeasonCalendar,
+  setSeasonCalendar,
+  subscribeSeasonCalendar,
+} from "@/lib/season-calendar-store"
+
+// Shared, persisted season calendar
+export function useSeasonCalendar() {
+  const calendar = useSyncExternalStore(subscribeSeasonCalendar, getSeasonCalendar, getServerSeasonCalendar)
+
+  return {
+    calendar,
+    setCalendar: setSeasonCalendar,
+    resetCalendar: resetSeasonCalendar,
+  }
+}
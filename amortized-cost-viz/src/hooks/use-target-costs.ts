@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react"
+import {
+  getServerTargetCosts,
+  getTargetCosts,
+  resetTargetCosts,
+  setTargetCosts,
+  subscribeTargetCosts,
+} from "@/lib/target-cost-store"
+
+// Shared, persisted target costs per level
+export function useTargetCosts() {
+  const targetCostSettings = useSyncExternalStore(subscribeTargetCosts, getTargetCosts, getServerTargetCosts)
+
+  return {
+    targetCostSettings,
+    setTargetCosts,
+    resetTargetCosts,
+  }
+}
@@ -0,0 +1,137 @@
+// Analysis tables for the command line (scripts/hiring-analysis.ts).
+//
+// Each table is a header plus rows of numbers, with null where a value does
+// not exist (an unreachable target, a salary without an optimum). The same
+// table renders as CSV, JSON or Markdown; money is rounded to whole dollars.
+
+import {
+  DEFAULT_GROWTH_MODEL,
+  GrowthModel,
+  HiringCostFormula,
+  OPTIMIZATION_HORIZON,
+  TargetHiringCost,
+  calculateAmortizedCost,
+  findHiringCostForTarget,
+  hiringCost,
+  maintenanceCost,
+  solveOptimalDuration,
+  weeklySalary,
+} from "@/lib/cost-model"
+import { SalaryRange, salarySweep } from "@/lib/roles"
+
+export type TableFormat = "csv" | "json" | "markdown"
+
+export const TABLE_FORMATS: TableFormat[] = ["csv", "json", "markdown"]
+
+export interface AnalysisTable {
+  columns: string[]
+  rows: (number | null)[][]
+}
+
+// One column per target; each cell is `cell` of the target's result at that salary
+function targetTable(
+  range: SalaryRange,
+  step: number,
+  level: number,
+  targets: number[],
+  cell: (result: TargetHiringCost) => number,
+  growth: GrowthModel,
+): AnalysisTable {
+  return {
+    columns: ["salary", ...targets.map(cost => `$${cost}/week`)],
+    rows: salarySweep(range, step).map(salary => [
+      salary,
+      ...targets.map(target => {
+        const result = findHiringCostForTarget(target, salary, level, growth)
+        return result ? cell(result) : null
+      }),
+    ]),
+  }
+}
+
+// Largest hiring fee that keeps the optimal weekly cost at each target
+export function maxFeeTable(
+  range: SalaryRange,
+  step: number,
+  level: number,
+  targets: number[],
+  growth: GrowthModel = DEFAULT_GROWTH_MODEL,
+): AnalysisTable {
+  return targetTable(range, step, level, targets, result => Math.round(result.hiringCost), growth)
+}
+
+// Optimal week at the largest hiring fee for each target
+export function targetDurationTable(
+  range: SalaryRange,
+  step: number,
+  level: number,
+  targets: number[],
+  growth: GrowthModel = DEFAULT_GROWTH_MODEL,
+): AnalysisTable {
+  return targetTable(range, step, level, targets, result => result.duration, growth)
+}
+
+// Market hiring fee, optimal week and optimal weekly cost at each salary
+export function optimumTable(
+  range: SalaryRange,
+  step: number,
+  level: number,
+  formula: HiringCostFormula,
+  horizon: number = OPTIMIZATION_HORIZON,
+  growth: GrowthModel = DEFAULT_GROWTH_MODEL,
+): AnalysisTable {
+  return {
+    columns: ["salary", "hiringFee", "optimalWeek", "optimalCost"],
+    rows: salarySweep(range, step).map(salary => {
+      const fee = hiringCost(salary, level, formula)
+      const solution = solveOptimalDuration(fee, salary, level, growth, horizon)
+      return solution.kind === 'minimum'
+        ? [salary, Math.round(fee), solution.week, Math.round(solution.cost)]
+        : [salary, Math.round(fee), null, null]
+    }),
+  }
+}
+
+// Week-by-week costs of one hire at the market hiring fee
+export function amortizationTable(
+  salary: number,
+  level: number,
+  formula: HiringCostFormula,
+  weeks: number,
+  growth: GrowthModel = DEFAULT_GROWTH_MODEL,
+): AnalysisTable {
+  const fee = hiringCost(salary, level, formula)
+  return {
+    columns: ["week", "weeklySalary", "cumulativeCost", "amortizedCost"],
+    rows: Array.from({ length: weeks }, (_, i) => {
+      const week = i + 1
+      return [
+        week,
+        Math.round(weeklySalary(salary, week, level, growth)),
+        Math.round(fee + maintenanceCost(salary, week, level, growth)),
+        Math.round(calculateAmortizedCost(salary, week, level, formula, growth)),
+      ]
+    }),
+  }
+}
+
+export function formatTable(table: AnalysisTable, format: TableFormat): string {
+  if (format === "json") {
+    const records = table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [column, row[i]])))
+    return JSON.stringify(records, null, 2)
+  }
+
+  if (format === "markdown") {
+    const line = (cells: string[]) => `| ${cells.join(" | ")} |`
+    return [
+      line(table.columns),
+      line(table.columns.map(() => "---:")),
+      ...table.rows.map(row => line(row.map(value => (value === null ? "-" : String(value))))),
+    ].join("\n")
+  }
+
+  return [
+    table.columns.join(","),
+    ...table.rows.map(row => row.map(value => (value === null ? "" : String(value))).join(",")),
+  ].join("\n")
+}
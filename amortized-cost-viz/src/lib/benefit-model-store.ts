@@ -0,0 +1,27 @@
+// App-wide benefit model, persisted like the growth model.
+
+import { BenefitModel, DEFAULT_BENEFIT_MODEL } from "@/lib/benefit"
+import { createPersistentStore } from "@/lib/persistent-store"
+
+export const BENEFIT_MODEL_STORAGE_KEY = "bb-staff:benefit-model"
+export const BENEFIT_MODEL_SCHEMA_VERSION = 1
+
+const store = createPersistentStore<BenefitModel>({
+  key: BENEFIT_MODEL_STORAGE_KEY,
+  version: BENEFIT_MODEL_SCHEMA_VERSION,
+  initial: DEFAULT_BENEFIT_MODEL,
+  migrations: {},
+  isValid: (data) => {
+    const model = data as BenefitModel
+    return !!model
+      && (model.kind === "value" || model.kind === "effect")
+      && !!model.benefits
+      && typeof model.benefits === "object"
+  },
+})
+
+export const getBenefitModel = store.get
+export const getServerBenefitModel = store.getServer
+export const setBenefitModel = store.set
+export const resetBenefitModel = store.reset
+export const subscribeBenefitModel = store.subscribe
@@ -0,0 +1,54 @@
+// Value for money: levels are scored by the optimal cost per unit of their
+// benefit, which defaults to the level registry's weekly value.
+
+import { describe, expect, it } from "vitest"
+import { BenefitModel, ValueForMoney, defaultBenefit, levelBenefit, rankValueForMoney, valueForMoney } from "@/lib/benefit"
+import { DEFAULT_GROWTH_MODEL, INITIAL_HIRING_DATA, findAmortizedCostMinimum, generateHiringFormula } from "@/lib/cost-model"
+import { DEFAULT_LEVEL_REGISTRY, LevelRegistry } from "@/lib/levels"
+
+const formula = generateHiringFormula(INITIAL_HIRING_DATA)
+const registry: LevelRegistry = { ...DEFAULT_LEVEL_REGISTRY, 3: { ...DEFAULT_LEVEL_REGISTRY[3], weeklyValue: 12500 } }
+
+describe("levelBenefit", () => {
+  it("defaults to the registry's weekly value in $, or the level in effect units", () => {
+    expect(defaultBenefit(3, "value")).toBe(DEFAULT_LEVEL_REGISTRY[3].weeklyValue)
+    expect(defaultBenefit(3, "value", registry)).toBe(12500)
+    expect(defaultBenefit(4, "effect", registry)).toBe(4)
+  })
+
+  it("prefers the benefit the user entered", () => {
+    const model: BenefitModel = { kind: "value", benefits: { 4: 20000 } }
+    expect(levelBenefit(4, model, registry)).toBe(20000)
+    expect(levelBenefit(3, model, registry)).toBe(12500)
+  })
+})
+
+describe("valueForMoney", () => {
+  const optimum = findAmortizedCostMinimum(7000, 3, formula, DEFAULT_GROWTH_MODEL)!
+
+  it("scores the optimum against a $ value, with the return on its cost", () => {
+    const result = valueForMoney(7000, 3, formula, DEFAULT_GROWTH_MODEL, { kind: "value", benefits: {} }, registry)!
+    expect(result).toMatchObject({ level: 3, salary: 7000, optimalCost: optimum.cost, optimalWeeks: optimum.week, benefit: 12500 })
+    expect(result.costPerBenefit).toBeCloseTo(optimum.cost / 12500, 10)
+    expect(result.roi).toBeCloseTo((12500 - optimum.cost) / optimum.cost, 10)
+  })
+
+  it("leaves the return out for relative effects", () => {
+    const result = valueForMoney(7000, 3, formula, DEFAULT_GROWTH_MODEL, { kind: "effect", benefits: { 3: 1.5 } })!
+    expect(result.costPerBenefit).toBeCloseTo(optimum.cost / 1.5, 10)
+    expect(result.roi).toBeNull()
+  })
+
+  it("skips levels without a positive benefit", () => {
+    expect(valueForMoney(7000, 3, formula, DEFAULT_GROWTH_MODEL, { kind: "effect", benefits: { 3: 0 } })).toBeNull()
+  })
+})
+
+describe("rankValueForMoney", () => {
+  it("puts the lowest cost per benefit first without reordering its input", () => {
+    const option = (level: number, costPerBenefit: number) => ({ level, costPerBenefit }) as ValueForMoney
+    const options = [option(3, 3000), option(4, 2500), option(5, 2800)]
+    expect(rankValueForMoney(options).map(o => o.level)).toEqual([4, 5, 3])
+    expect(options.map(o => o.level)).toEqual([3, 4, 5])
+  })
+})
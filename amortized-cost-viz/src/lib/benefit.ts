@@ -0,0 +1,76 @@
+// Benefit model: what a staff member of each level is worth per week.
+//
+// The cost model finds the cheapest way to hold a level; whether a higher
+// level earns its premium depends on what it delivers. The user enters
+// either a value in $ per week or a relative effect per level, and each
+// optimum is scored by its cost per unit of benefit. Levels left blank take
+// their worth from the level registry.
+
+import {
+  GrowthModel,
+  HiringCostFormula,
+  findAmortizedCostMinimum,
+} from "@/lib/cost-model"
+import { DEFAULT_LEVEL_REGISTRY, LevelRegistry, levelDefinition } from "@/lib/levels"
+
+// value: $ per week the staff member is worth; effect: relative units (e.g. % bonus)
+export type BenefitKind = 'value' | 'effect'
+
+export interface BenefitModel {
+  kind: BenefitKind
+  benefits: { [level: number]: number } // Missing levels use defaultBenefit
+}
+
+export interface ValueForMoney {
+  level: number
+  salary: number
+  optimalCost: number // Optimal amortized cost per week
+  optimalWeeks: number
+  benefit: number
+  costPerBenefit: number
+  roi: number | null // (value - cost) / cost, only for $ values
+}
+
+export const DEFAULT_BENEFIT_MODEL: BenefitModel = { kind: 'effect', benefits: {} }
+
+// Until the user enters their own: the registry's weekly value in $, or one unit of effect per level
+export function defaultBenefit(level: number, kind: BenefitKind, registry: LevelRegistry = DEFAULT_LEVEL_REGISTRY): number {
+  return kind === 'value' ? levelDefinition(level, registry).weeklyValue : level
+}
+
+export function levelBenefit(level: number, model: BenefitModel, registry: LevelRegistry = DEFAULT_LEVEL_REGISTRY): number {
+  return model.benefits[level] ?? defaultBenefit(level, model.kind, registry)
+}
+
+export function describeBenefitUnit(model: BenefitModel): string {
+  return model.kind === 'value' ? '$ of value' : 'unit of effect'
+}
+
+// The optimum at `salary` scored against the level's benefit; null without an optimum or benefit
+export function valueForMoney(
+  salary: number,
+  level: number,
+  formula: HiringCostFormula,
+  growth: GrowthModel,
+  model: BenefitModel,
+  registry: LevelRegistry = DEFAULT_LEVEL_REGISTRY,
+): ValueForMoney | null {
+  const benefit = levelBenefit(level, model, registry)
+  const optimum = findAmortizedCostMinimum(salary, level, formula, growth)
+  if (!optimum || benefit <= 0) return null
+
+  return {
+    level,
+    salary,
+    optimalCost: optimum.cost,
+    optimalWeeks: optimum.week,
+    benefit,
+    costPerBenefit: optimum.cost / benefit,
+    roi: model.kind === 'value' ? (benefit - optimum.cost) / optimum.cost : null,
+  }
+}
+
+// Best value for money first
+export function rankValueForMoney(options: ValueForMoney[]): ValueForMoney[] {
+  return [...options].sort((a, b) => a.costPerBenefit - b.costPerBenefit)
+}
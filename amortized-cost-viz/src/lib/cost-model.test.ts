@@ -0,0 +1,278 @@
+// Golden values computed by the copies of the engine that lived in the chart
+// components and generate-hiring-analysis-tables.js before the cost model was
+// extracted. Every view must keep giving these answers for the default data.
+// The later sections cover what was added on top of the baseline.
+
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_GROWTH_MODEL,
+  GrowthModel,
+  INITIAL_HIRING_DATA,
+  MAX_HIRING_FEE,
+  OPTIMIZATION_HORIZON,
+  STAFF_LEVELS,
+  amortizedCostForFee,
+  calculateAmortizedCost,
+  decideKeepOrReplace,
+  discountFactor,
+  discountedMaintenanceCost,
+  findAmortizedCostMinimum,
+  findHiringCostForTarget,
+  generateHiringFormula,
+  growthFactor,
+  hiringFeeCurve,
+  impliedStartingSalary,
+  maintenanceCost,
+  solveOptimalDuration,
+  weeklySalary,
+  withoutDiscount,
+} from "@/lib/cost-model"
+
+const formula = generateHiringFormula(INITIAL_HIRING_DATA)
+
+describe("calculateAmortizedCost", () => {
+  it.each([
+    [8000, 26, 3, 10188.208767915277],
+    [6500, 40, 3, 9613.310751988934],
+    [9500, 30, 4, 13888.317633253],
+    [12000, 52, 4, 19904.687386690654],
+    [5000, 1, 3, 60074.99999999991],
+    [7000, 10, 5, 8618.100793812835], // No data for level 5: the $1,000 floor
+  ])("S=%i, T=%i, level %i", (S, T, level, expected) => {
+    expect(calculateAmortizedCost(S, T, level, formula)).toBeCloseTo(expected, 6)
+  })
+})
+
+describe("findAmortizedCostMinimum", () => {
+  it.each([
+    [5000, 3, 32, 8171.658176640781],
+    [6500, 3, 21, 8949.727124760904],
+    [8000, 3, 12, 9574.553068153638],
+    [10000, 3, 11, 11946.555846153573],
+    [9500, 4, 19, 13429.752961443899],
+    [11000, 4, 12, 13668.497773902804],
+    [12000, 5, 10, 14702.458503679149],
+  ])("S=%i, level %i", (S, level, week, cost) => {
+    const optimum = findAmortizedCostMinimum(S, level, formula)
+    expect(optimum?.week).toBe(week)
+    expect(optimum?.cost).toBeCloseTo(cost, 6)
+  })
+})
+
+describe("findHiringCostForTarget", () => {
+  it.each([
+    [9000, 7000, 3, 9597.35107421875, 16],
+    [12000, 9500, 4, 6762.054443359375, 13],
+    [8000, 5000, 3, 44535.5224609375, 31],
+    [11000, 8000, 4, 19505.645751953125, 18],
+    [10000, 4000, 3, 205507.2021484375, 61],
+    [15000, 7000, 4, 186849.12109375, 43],
+  ])("$%i/week at S=%i, level %i", (target, S, level, fee, duration) => {
+    const result = findHiringCostForTarget(target, S, level)
+    expect(result?.hiringCost).toBeCloseTo(fee, 0)
+    expect(result?.duration).toBe(duration)
+  })
+
+  // Even a $1,000,000 fee optimizes to ~$27,880/week here, so the bisection
+  // pins against the upper bound instead of reaching the target
+  it("returns null for a target above what the largest fee reaches", () => {
+    expect(solveOptimalDuration(MAX_HIRING_FEE, 7000, 4)).toMatchObject({ kind: "minimum", week: 79 })
+    expect(findHiringCostForTarget(40000, 7000, 4)).toBeNull()
+  })
+
+  // The generator searched T ≤ 150 weeks and the charts T ≤ 500. They only
+  // disagreed when the optimum lay past week 150, as here: the generator
+  // answered $801,468 at week 150, the max hiring fee chart $807,322 at 161.
+  it("follows the charts' 500-week search where the old generator stopped at 150", () => {
+    const result = findHiringCostForTarget(10000, 2000, 1)
+    expect(result?.hiringCost).toBeCloseTo(807321.77734375, 0)
+    expect(result?.duration).toBe(161)
+    expect(result?.hiringCost).not.toBeCloseTo(801468.26171875, 0)
+  })
+
+  it("reports an optimum past a 150-week horizon instead of clamping to it", () => {
+    const solution = solveOptimalDuration(807321.77734375, 2000, 1, DEFAULT_GROWTH_MODEL, 150)
+    expect(solution).toMatchObject({ kind: "no-minimum", reason: "beyond-horizon" })
+    expect(solveOptimalDuration(807321.77734375, 2000, 1)).toMatchObject({ kind: "minimum", week: 161 })
+  })
+})
+
+describe("hiringFeeCurve", () => {
+  const salaries = [4000, 5500, 6000, 6500, 7000, 8000, 12500, 15000]
+
+  it.each([
+    [3, [70000, 40000, 30000, 20000, 10000, 1000, 1000, 1000]],
+    [4, [140000, 110000, 100000, 90000, 80000, 60000, 1000, 1000]],
+    [5, [1000, 1000, 1000, 1000, 1000, 1000, 1000, 1000]],
+  ])("level %i", (level, fees) => {
+    expect(hiringFeeCurve(salaries, level, formula)).toEqual(salaries.map((salary, i) => ({ salary, cost: fees[i] })))
+  })
+})
+
+describe("decideKeepOrReplace", () => {
+  const linear: GrowthModel = { ...DEFAULT_GROWTH_MODEL, kind: "linear" }
+
+  // Linear raises are a fixed share of the starting salary, so the projection
+  // must continue the original path rather than restart from today's salary
+  it("continues a linear raise from the starting salary", () => {
+    const decision = decideKeepOrReplace(5000, 20, 3, 7000, formula, linear)
+    expect(decision?.replacement.cost).toBeCloseTo(8941.944444444445, 6)
+    expect(decision?.replaceInWeeks).toBe(32)
+  })
+
+  it("gives the same answer from a known current salary", () => {
+    const currentSalary = weeklySalary(5000, 20, 3, linear)
+    const startingSalary = impliedStartingSalary(currentSalary, 20, 3, linear)
+    expect(startingSalary).toBeCloseTo(5000, 6)
+    expect(decideKeepOrReplace(startingSalary, 20, 3, 7000, formula, linear)?.replaceInWeeks).toBe(32)
+  })
+
+  it("does not depend on the split into starting salary and tenure when compounding", () => {
+    const fromStart = decideKeepOrReplace(5000, 20, 3, 5000, formula)
+    const fromToday = decideKeepOrReplace(weeklySalary(5000, 20, 3), 0, 3, 5000, formula)
+    expect(fromStart?.replaceInWeeks).toBe(12)
+    expect(fromToday?.replaceInWeeks).toBe(12)
+    expect(fromStart?.savings).toBeCloseTo(fromToday?.savings ?? 0, 6)
+  })
+
+  it("keeps a salary at the cap as its own starting salary", () => {
+    const capped: GrowthModel = { ...linear, maxSalary: 6000 }
+    expect(impliedStartingSalary(6000, 20, 3, capped)).toBe(6000)
+    expect(impliedStartingSalary(5200, 20, 3, capped)).toBeCloseTo(4000, 6)
+  })
+})
+
+// Brute-force references for the closed forms: the week-by-week salary sum
+// and the best whole week of a full scan
+function salarySum(S: number, T: number, level: number, growth: GrowthModel): number {
+  let total = 0
+  for (let t = 0; t <= T; t++) total += weeklySalary(S, t, level, growth)
+  return total
+}
+
+function scanOptimum(h: number, S: number, level: number, growth: GrowthModel, horizon = OPTIMIZATION_HORIZON) {
+  let best = { week: 1, cost: amortizedCostForFee(h, S, 1, level, growth) }
+  for (let T = 2; T <= horizon; T++) {
+    const cost = amortizedCostForFee(h, S, T, level, growth)
+    if (cost < best.cost) best = { week: T, cost }
+  }
+  return best
+}
+
+describe("growth models", () => {
+  const linear: GrowthModel = { ...DEFAULT_GROWTH_MODEL, kind: "linear" }
+  const capped: GrowthModel = { ...DEFAULT_GROWTH_MODEL, maxSalary: 9000 }
+  const linearCapped: GrowthModel = { ...linear, maxSalary: 9000 }
+
+  it("defaults to g(ℓ) = 1% + 0.25%·(ℓ−1) and takes per-level overrides", () => {
+    expect(STAFF_LEVELS.map(level => growthFactor(level))).toEqual(
+      [0.01, 0.0125, 0.015, 0.0175, 0.02, 0.0225, 0.025].map(rate => expect.closeTo(rate, 12)),
+    )
+    const overridden: GrowthModel = { ...DEFAULT_GROWTH_MODEL, rates: { 3: 0.03 } }
+    expect(growthFactor(3, overridden)).toBe(0.03)
+    expect(growthFactor(4, overridden)).toBeCloseTo(0.0175, 12)
+  })
+
+  it("pays S(1 + g·t) per week under linear growth", () => {
+    expect(weeklySalary(5000, 20, 3, linear)).toBeCloseTo(6500, 9)
+    expect(weeklySalary(5000, 20, 3)).toBeCloseTo(5000 * 1.015 ** 20, 9)
+  })
+
+  it.each([
+    ["compounding", DEFAULT_GROWTH_MODEL],
+    ["linear", linear],
+    ["compounding with a cap", capped],
+    ["linear with a cap", linearCapped],
+  ])("sums the weekly salaries in closed form (%s)", (_, growth) => {
+    for (const T of [1, 10, 37, 104, 300]) {
+      expect(maintenanceCost(6000, T, 4, growth)).toBeCloseTo(salarySum(6000, T, 4, growth), 4)
+    }
+  })
+
+  it("stops salaries at the cap, or at the starting salary when hired above it", () => {
+    expect(weeklySalary(6000, 200, 4, capped)).toBe(9000)
+    expect(weeklySalary(6000, 10, 4, capped)).toBeCloseTo(6000 * 1.0175 ** 10, 9)
+    expect(weeklySalary(12000, 50, 4, capped)).toBe(12000)
+  })
+
+  it.each([
+    ["compounding", DEFAULT_GROWTH_MODEL],
+    ["linear", linear],
+    ["compounding with a cap", capped],
+    ["linear with a cap", linearCapped],
+  ])("finds the same whole week as a full scan (%s)", (_, growth) => {
+    for (const [h, S] of [[50000, 5000], [1500, 7000], [20000, 8000], [1000, 12000], [140000, 9000]]) {
+      const solution = solveOptimalDuration(h, S, 3, growth)
+      const scan = scanOptimum(h, S, 3, growth)
+      // A scan that bottoms out on its last week has not found a minimum
+      if (scan.week === OPTIMIZATION_HORIZON) {
+        expect(solution.kind).toBe("no-minimum")
+        continue
+      }
+      expect(solution).toMatchObject({ kind: "minimum", week: scan.week })
+      if (solution.kind === "minimum") expect(solution.cost).toBeCloseTo(scan.cost, 6)
+    }
+  })
+
+  it("reports why there is no optimum", () => {
+    const flat: GrowthModel = { ...DEFAULT_GROWTH_MODEL, rates: { 3: 0 } }
+    expect(solveOptimalDuration(50000, 5000, 3, flat)).toEqual({ kind: "no-minimum", reason: "no-growth" })
+    // The cap is reached long before the fee is paid off
+    const lowCap: GrowthModel = { ...DEFAULT_GROWTH_MODEL, maxSalary: 5500 }
+    expect(solveOptimalDuration(200000, 5000, 3, lowCap)).toMatchObject({ kind: "no-minimum", reason: "capped" })
+  })
+})
+
+describe("discounting", () => {
+  const discounted: GrowthModel = { ...DEFAULT_GROWTH_MODEL, discountRate: 0.002 }
+
+  // The constant weekly payment over T weeks with the same present value
+  function presentValueCost(h: number, S: number, T: number, level: number, growth: GrowthModel): number {
+    let salaries = 0
+    let annuity = 0
+    for (let t = 0; t <= T; t++) salaries += weeklySalary(S, t, level, growth) / (1 + growth.discountRate) ** t
+    for (let t = 0; t < T; t++) annuity += 1 / (1 + growth.discountRate) ** t
+    return (h + salaries) / annuity
+  }
+
+  it("leaves every cost unchanged at a zero rate", () => {
+    const undiscounted = withoutDiscount(discounted)
+    expect(undiscounted).toEqual(DEFAULT_GROWTH_MODEL)
+    expect(amortizedCostForFee(50000, 5000, 32, 3, undiscounted)).toBe(amortizedCostForFee(50000, 5000, 32, 3))
+  })
+
+  it("spreads the present value of the fee and salaries evenly over the weeks", () => {
+    for (const T of [1, 12, 52, 200]) {
+      expect(amortizedCostForFee(50000, 5000, T, 3, discounted)).toBeCloseTo(presentValueCost(50000, 5000, T, 3, discounted), 6)
+    }
+    expect(discountedMaintenanceCost(5000, 0, 3, discounted)).toBe(5000)
+    expect(discountFactor(52, discounted)).toBeCloseTo(1.002 ** -52, 12)
+  })
+
+  it("finds the same whole week as a full scan", () => {
+    for (const growth of [discounted, { ...discounted, kind: "linear" as const }, { ...discounted, maxSalary: 9000 }]) {
+      for (const [h, S] of [[50000, 5000], [1500, 7000], [20000, 8000]]) {
+        const solution = solveOptimalDuration(h, S, 3, growth)
+        const scan = scanOptimum(h, S, 3, growth)
+        if (scan.week === OPTIMIZATION_HORIZON) {
+          expect(solution.kind).toBe("no-minimum")
+          continue
+        }
+        expect(solution).toMatchObject({ kind: "minimum", week: scan.week })
+        if (solution.kind === "minimum") expect(solution.cost).toBeCloseTo(scan.cost, 6)
+      }
+    }
+  })
+
+  it("discounts the savings of keeping a staff member", () => {
+    const plain = decideKeepOrReplace(5000, 20, 3, 5000, formula)
+    const decision = decideKeepOrReplace(5000, 20, 3, 5000, formula, discounted)
+    expect(decision?.replaceInWeeks).toBeGreaterThan(0)
+    let savings = 0
+    for (let t = 1; t <= (decision?.replaceInWeeks ?? 0); t++) {
+      savings += ((decision?.replacement.cost ?? 0) - weeklySalary(5000, 20 + t, 3, discounted)) / 1.002 ** t
+    }
+    expect(decision?.savings).toBeCloseTo(savings, 6)
+    expect(decision?.savings).not.toBeCloseTo(plain?.savings ?? 0, 0)
+  })
+})
@@ -0,0 +1,582 @@
+// Cost model shared by every chart and the table generator.
+//
+// A(S,T,ℓ) = (h(S,ℓ) + S × ((1+g(ℓ))^(T+1)-1)/g(ℓ)) / T   (compounding growth, no cap)
+//
+// - growthFactor(ℓ, G)                   weekly salary growth g(ℓ) under growth model G
+// - describeGrowthModel(G, ℓ)            one-line summary of a growth model
+// - generateHiringFormula(data, models)  market data -> h(S,ℓ) formula, fitted per level (fee-models.ts)
+// - hiringCost(S, ℓ, formula)            hiring fee h(S,ℓ), clamped at MIN_HIRING_FEE
+// - hiringFeeCurve(salaries, ℓ, formula) h(S,ℓ) sampled over a salary sweep
+// - calculateAmortizedCost(S, T, ℓ, f)   A(S,T,ℓ) with h taken from the market
+// - solveOptimalDuration(h, S, ℓ)        continuous + integer optimum, or why none exists
+// - findAmortizedCostMinimum(S, ℓ, f)    optimal week and cost for a market fee
+// - findOptimalDuration(h, S, ℓ)         optimal week and cost for a given fee
+// - findHiringCostForTarget(A*, S, ℓ)    inverse solve: largest fee whose optimum is A*
+// - impliedStartingSalary(S_now, w, ℓ)   starting salary that grew to S_now in w weeks
+// - decideKeepOrReplace(S₀, w, ℓ, S, f)  when to replace a staff member already employed
+//
+// Every function that grows a salary takes an optional GrowthModel last:
+// the per-level rates, compounding or linear growth and an optional salary
+// cap. It defaults to the game's standard compounding rates.
+//
+// Everything here is pure and UI-free so the React components and the
+// Node scripts give the same answer for the same inputs.
+
+import { HiringFeeFit, HiringFeeModel, evaluateFeeFit, fitHiringFeeModel } from "@/lib/fee-models"
+
+export interface HiringCostData {
+  [level: number]: {
+    [salary: number]: number | null
+  }
+}
+
+export interface HiringCostPoint {
+  salary: number
+  cost: number
+}
+
+export interface HiringCostFormula {
+  type: 'interpolated' | 'manual'
+  formula: string
+  parameters: { [level: number]: { points: HiringCostPoint[]; fit?: HiringFeeFit } }
+  rSquared?: number // Pooled over the fitted levels
+}
+
+export interface OptimalDuration {
+  week: number // Best whole number of weeks
+  cost: number
+  continuousWeek: number // Stationary point of the continuous A(S,T,ℓ)
+  continuousCost: number
+}
+
+export type NoMinimumReason = 'no-growth' | 'capped' | 'beyond-horizon'
+
+export type OptimumSolution =
+  | ({ kind: 'minimum' } & OptimalDuration)
+  | { kind: 'no-minimum'; reason: NoMinimumReason; continuousWeek?: number }
+
+export interface TargetHiringCost {
+  hiringCost: number
+  duration: number
+}
+
+// compound: S × (1+g)^t, linear: S × (1 + g·t)
+export type GrowthKind = 'compound' | 'linear'
+
+export interface GrowthModel {
+  rates: { [level: number]: number } // Weekly rate per level; missing levels use the default g(ℓ)
+  kind: GrowthKind
+  maxSalary: number | null // Salaries stop growing at this cap; null = no cap
+  discountRate: number // Weekly discount rate; 0 = a dollar counts the same in every week
+}
+
+export interface KeepOrReplaceDecision {
+  replacement: OptimalDuration // Market optimum of the replacement hire
+  replacementFee: number
+  replaceInWeeks: number // 0 = replace now
+  savings: number // Money saved versus replacing now
+}
+
+// Staff levels that exist in the game: 1 (minimal) to 7 (world-renowned)
+export const STAFF_LEVELS = [1, 2, 3, 4, 5, 6, 7]
+
+// The market never charges less than this, whatever the interpolation says
+export const MIN_HIRING_FEE = 1000
+
+// Upper bound of the inverse fee search
+export const MAX_HIRING_FEE = 1000000
+
+// Longest tenure (in weeks) considered when searching for the optimum
+export const OPTIMIZATION_HORIZON = 500
+
+export const DEFAULT_GROWTH_MODEL: GrowthModel = { rates: {}, kind: 'compound', maxSalary: null, discountRate: 0 }
+
+// Market data from your observations
+export const INITIAL_HIRING_DATA: HiringCostData = {
+  3: {
+    6000: 30000,
+    7000: 10000,
+    8000: 1000,
+    9000: 1000,
+    10000: 1000,
+    11000: 1000,
+    12000: 1000,
+  },
+  4: {
+    9000: 40000,
+    10000: 20000,
+    11000: 5000,
+    12000: 1000,
+    13000: 1000,
+    14000: 1000,
+  }
+}
+
+// Growth factor function: g(ell) = 1% + (ell-1) * 0.25%
+// Level 1 (minimal): 1%, Level 2 (basic): 1.25%, Level 3 (competent): 1.5%,
+// Level 4 (advanced): 1.75%, Level 5 (superior): 2%, Level 6 (exceptional): 2.25%, Level 7 (world-renowned): 2.5%
+export function growthFactor(level: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): number {
+  return growth.rates[level] ?? 0.01 + (level - 1) * 0.0025 // 1% base + 0.25% per level above 1
+}
+
+export function describeGrowthModel(growth: GrowthModel, level?: number): string {
+  const kind = growth.kind === 'linear' ? 'linear' : 'compounding'
+  const rate = level === undefined ? `${kind} salary growth` : `${(growthFactor(level, growth) * 100).toFixed(2)}% ${kind} weekly growth`
+  const capped = growth.maxSalary === null ? rate : `${rate}, capped at $${growth.maxSalary.toLocaleString()}`
+  return growth.discountRate > 0 ? `${capped}, discounted at ${(growth.discountRate * 100).toFixed(2)}% per week` : capped
+}
+
+// Shape check for growth models read from storage or a share link
+export function isGrowthModel(value: unknown): value is GrowthModel {
+  const growth = value as GrowthModel
+  return !!growth
+    && !!growth.rates
+    && typeof growth.rates === "object"
+    && Object.values(growth.rates).every(rate => typeof rate === "number")
+    && (growth.kind === "compound" || growth.kind === "linear")
+    && (growth.maxSalary === null || typeof growth.maxSalary === "number")
+    && typeof growth.discountRate === "number"
+}
+
+// The same model with discounting switched off, for showing both figures
+export function withoutDiscount(growth: GrowthModel): GrowthModel {
+  return { ...growth, discountRate: 0 }
+}
+
+// Present value of a dollar paid in week t: 1/(1+d)^t
+export function discountFactor(t: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): number {
+  return Math.pow(1 + growth.discountRate, -t)
+}
+
+// Present value of 1 paid at the start of each of T weeks: Σ 1/(1+d)^t for t < T
+function annuityFactor(T: number, growth: GrowthModel): number {
+  const d = growth.discountRate
+  return d === 0 ? T : -Math.expm1(-T * Math.log1p(d)) * (1 + d) / d
+}
+
+// Linear interpolation with logical extrapolation
+export function interpolateHiringCost(salary: number, points: HiringCostPoint[]): number | null {
+  if (points.length === 0) return null
+  if (points.length === 1) return points[0].cost
+
+  // Sort points by salary
+  const sortedPoints = [...points].sort((a, b) => a.salary - b.salary)
+
+  // Check if salary is exactly at a data point
+  const exactMatch = sortedPoints.find(p => p.salary === salary)
+  if (exactMatch) return exactMatch.cost
+
+  // Extrapolate below the lowest data point using the slope of the first two points
+  if (salary < sortedPoints[0].salary) {
+    const p1 = sortedPoints[0]
+    const p2 = sortedPoints[1]
+    const slope = (p2.cost - p1.cost) / (p2.salary - p1.salary)
+    return p1.cost + slope * (salary - p1.salary)
+  }
+
+  // Extrapolate above the highest data point using the slope of the last two points
+  if (salary > sortedPoints[sortedPoints.length - 1].salary) {
+    const p1 = sortedPoints[sortedPoints.length - 2]
+    const p2 = sortedPoints[sortedPoints.length - 1]
+    const slope = (p2.cost - p1.cost) / (p2.salary - p1.salary)
+    return p2.cost + slope * (salary - p2.salary)
+  }
+
+  // Interpolate between data points
+  for (let i = 0; i < sortedPoints.length - 1; i++) {
+    const p1 = sortedPoints[i]
+    const p2 = sortedPoints[i + 1]
+
+    if (salary >= p1.salary && salary <= p2.salary) {
+      const ratio = (salary - p1.salary) / (p2.salary - p1.salary)
+      return p1.cost + ratio * (p2.cost - p1.cost)
+    }
+  }
+
+  return null
+}
+
+// Generate the formula for all levels: linear interpolation, or the model
+// chosen for a level fitted to its points ('manual' when any level is fitted)
+export function generateHiringFormula(data: HiringCostData, models: { [level: number]: HiringFeeModel } = {}): HiringCostFormula {
+  const parameters: HiringCostFormula['parameters'] = {}
+  const fitted: string[] = []
+  let residual = 0
+  let total = 0
+
+  for (const [levelStr, salaryData] of Object.entries(data)) {
+    const level = parseInt(levelStr)
+    const points: HiringCostPoint[] = []
+
+    for (const [salaryStr, cost] of Object.entries<number | null>(salaryData)) {
+      if (cost !== null) {
+        points.push({ salary: parseInt(salaryStr), cost })
+      }
+    }
+
+    if (points.length >= 1) {
+      const fit = fitHiringFeeModel(models[level] ?? 'interpolated', points, MIN_HIRING_FEE)
+      parameters[level] = fit ? { points, fit } : { points }
+
+      if (fit) {
+        fitted.push(`L${level} ${fit.model} (R² ${fit.rSquared.toFixed(3)})`)
+        const mean = points.reduce((sum, p) => sum + p.cost, 0) / points.length
+        for (const p of points) {
+          residual += (p.cost - evaluateFeeFit(fit, p.salary)) ** 2
+          total += (p.cost - mean) ** 2
+        }
+      }
+    }
+  }
+
+  if (fitted.length === 0) {
+    return {
+      type: 'interpolated',
+      formula: 'Linear interpolation between data points',
+      parameters
+    }
+  }
+
+  return {
+    type: 'manual',
+    formula: `Fitted: ${fitted.join(', ')}`,
+    parameters,
+    rSquared: total === 0 ? 1 : 1 - residual / total,
+  }
+}
+
+// Hiring cost function: the level's fitted model, else interpolation
+export function hiringCost(startingSalary: number, level: number, formula: HiringCostFormula): number {
+  const params = formula.parameters[level]
+  if (!params || !params.points || params.points.length === 0) {
+    // Fallback for levels without data
+    return MIN_HIRING_FEE
+  }
+
+  if (params.fit) {
+    return Math.max(MIN_HIRING_FEE, evaluateFeeFit(params.fit, startingSalary))
+  }
+
+  const interpolated = interpolateHiringCost(startingSalary, params.points)
+  return interpolated !== null ? Math.max(MIN_HIRING_FEE, interpolated) : MIN_HIRING_FEE
+}
+
+// h(S,ℓ) evaluated at every salary of a sweep
+export function hiringFeeCurve(salaries: number[], level: number, formula: HiringCostFormula): HiringCostPoint[] {
+  return salaries.map(salary => ({ salary, cost: hiringCost(salary, level, formula) }))
+}
+
+// Salary growth before any cap: total paid over weeks 0..T, its first two
+// derivatives (the Newton solver needs them) and the salary paid in week T.
+// Both forms extend the weekly sums to non-integer T.
+interface SalaryPath {
+  total: (T: number) => number
+  slope: (T: number) => number
+  curvature: (T: number) => number
+  week: (T: number) => number
+}
+
+function uncappedPath(S: number, g: number, kind: GrowthKind): SalaryPath {
+  if (g === 0) {
+    return { total: T => S * (T + 1), slope: () => S, curvature: () => 0, week: () => S }
+  }
+
+  if (kind === 'linear') {
+    // Σ S(1 + g·t) = S(T+1) + S·g·T(T+1)/2
+    return {
+      total: T => S * (T + 1) + S * g * T * (T + 1) / 2,
+      slope: T => S + S * g * (2 * T + 1) / 2,
+      curvature: () => S * g,
+      week: T => S * (1 + g * T),
+    }
+  }
+
+  // Σ S(1+g)^t = S × ((1+g)^(T+1)-1)/g
+  const r = Math.log(1 + g)
+  return {
+    total: T => S * (Math.pow(1 + g, T + 1) - 1) / g,
+    slope: T => S * Math.pow(1 + g, T + 1) * r / g,
+    curvature: T => S * Math.pow(1 + g, T + 1) * r * r / g,
+    week: T => S * Math.pow(1 + g, T),
+  }
+}
+
+// Last whole week whose uncapped salary is within the cap (Infinity without a cap).
+// A staff member hired above the cap keeps their starting salary.
+function capWeek(S: number, g: number, growth: GrowthModel): number {
+  if (growth.maxSalary === null || g === 0) return Infinity
+  const cap = Math.max(S, growth.maxSalary)
+  const week = growth.kind === 'linear'
+    ? (cap / S - 1) / g
+    : Math.log(cap / S) / Math.log(1 + g)
+  return Math.floor(week + 1e-9)
+}
+
+// Total salary paid over weeks 0..T: S × ((1+g)^(T+1)-1)/g when compounding without a cap
+export function maintenanceCost(S: number, T: number, level: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): number {
+  const g = growthFactor(level, growth)
+  const path = uncappedPath(S, g, growth.kind)
+  const k = capWeek(S, g, growth)
+
+  if (T <= k) return path.total(T)
+  return path.total(k) + Math.max(S, growth.maxSalary ?? 0) * (T - k)
+}
+
+// Salary paid in week T alone: S × (1+g)^T when compounding without a cap
+export function weeklySalary(S: number, T: number, level: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): number {
+  const salary = uncappedPath(S, growthFactor(level, growth), growth.kind).week(T)
+  return growth.maxSalary === null ? salary : Math.min(salary, Math.max(S, growth.maxSalary))
+}
+
+// Present value of the salary paid over weeks 0..T, in whole weeks
+export function discountedMaintenanceCost(S: number, T: number, level: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): number {
+  let total = 0
+  for (let t = 0; t <= T; t++) total += weeklySalary(S, t, level, growth) * discountFactor(t, growth)
+  return total
+}
+
+// Amortized cost for an explicit hiring fee h. With a discount rate it is the
+// constant weekly payment over T weeks whose present value equals h plus the
+// discounted salaries.
+export function amortizedCostForFee(h: number, S: number, T: number, level: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): number {
+  if (growth.discountRate > 0) {
+    return (h + discountedMaintenanceCost(S, T, level, growth)) / annuityFactor(T, growth)
+  }
+  return (h + maintenanceCost(S, T, level, growth)) / T
+}
+
+// Amortized cost calculation: A(S,T,ell) = (h(S, ell) + S * ((1+g(ell))^(T+1)-1)/g(ell)) / T
+export function calculateAmortizedCost(S: number, T: number, level: number, hiringFormula: HiringCostFormula, growth: GrowthModel = DEFAULT_GROWTH_MODEL): number {
+  return amortizedCostForFee(hiringCost(S, level, hiringFormula), S, T, level, growth)
+}
+
+// Stationary point of A(T) = (h + M(T)) / T for an uncapped salary path M.
+// A'(T) = 0  <=>  f(T) = T·M'(T) - M(T) - h = 0, where f(0) = -(S+h) < 0 and
+// f'(T) = T·M''(T) > 0, so f has exactly one root. Newton's method is
+// safeguarded by a bisection bracket to stay inside it.
+function stationaryWeek(h: number, path: SalaryPath): number {
+  const f = (T: number) => T * path.slope(T) - path.total(T) - h
+  const df = (T: number) => T * path.curvature(T)
+
+  let low = 0
+  let high = 1
+  while (f(high) < 0) {
+    low = high
+    high *= 2
+  }
+
+  let T = high
+  for (let iter = 0; iter < 100; iter++) {
+    const value = f(T)
+    if (value < 0) low = T
+    else high = T
+
+    let next = T - value / df(T)
+    if (!(next > low && next < high)) next = (low + high) / 2
+
+    if (Math.abs(next - T) < 1e-9) return next
+    T = next
+  }
+
+  return T
+}
+
+// Discounted objective, scanned week by week: growth, the cap and discounting
+// together leave no closed-form stationary point. The continuous optimum is
+// the vertex of the parabola through the best week and its neighbours.
+function solveDiscountedDuration(h: number, S: number, level: number, growth: GrowthModel, horizon: number): OptimumSolution {
+  const costs: number[] = [Infinity] // costs[T] for T = 1..horizon+1
+  let salaries = weeklySalary(S, 0, level, growth)
+  let best = 1
+  for (let T = 1; T <= horizon + 1; T++) {
+    salaries += weeklySalary(S, T, level, growth) * discountFactor(T, growth)
+    costs[T] = (h + salaries) / annuityFactor(T, growth)
+    if (T <= horizon && costs[T] < costs[best]) best = T
+  }
+
+  if (best === horizon && costs[horizon + 1] < costs[horizon]) {
+    return { kind: 'no-minimum', reason: 'beyond-horizon' }
+  }
+
+  const [previous, cost, next] = [costs[best - 1], costs[best], costs[best + 1]]
+  const curvature = previous + next - 2 * cost
+  const shift = best > 1 && curvature > 0 ? Math.max(-0.5, Math.min(0.5, (previous - next) / (2 * curvature))) : 0
+
+  return {
+    kind: 'minimum',
+    week: best,
+    cost,
+    continuousWeek: best + shift,
+    continuousCost: shift === 0 ? cost : cost - (next - previous) ** 2 / (8 * curvature),
+  }
+}
+
+// Optimal duration for an explicit hiring fee h, searched up to `horizon` weeks.
+// A(T) is unimodal, so the best whole week is one of the two neighbours of
+// the continuous optimum.
+export function solveOptimalDuration(
+  h: number,
+  S: number,
+  level: number,
+  growth: GrowthModel = DEFAULT_GROWTH_MODEL,
+  horizon: number = OPTIMIZATION_HORIZON,
+): OptimumSolution {
+  const g = growthFactor(level, growth)
+  const k = capWeek(S, g, growth)
+
+  if (g === 0) {
+    // A = (h + S(T+1))/T decreases forever: keeping the staff member is always cheaper
+    return { kind: 'no-minimum', reason: 'no-growth' }
+  }
+
+  if (growth.discountRate > 0) return solveDiscountedDuration(h, S, level, growth, horizon)
+
+  const path = uncappedPath(S, g, growth.kind)
+  let continuousWeek = stationaryWeek(h, path)
+
+  // Past week k the salary is flat at the cap C, so A(T) = C + (h + M(k) - C·k)/T:
+  // it keeps falling towards C when that numerator is positive, otherwise the
+  // cheapest week is k itself
+  if (k < Infinity) {
+    const cap = Math.max(S, growth.maxSalary ?? 0)
+    const capped = h + path.total(k) - cap * k > 0
+    if (capped && (continuousWeek > k || path.slope(continuousWeek) >= cap)) {
+      return { kind: 'no-minimum', reason: 'capped' }
+    }
+    if (!capped) continuousWeek = Math.min(continuousWeek, k)
+  }
+
+  if (continuousWeek > horizon) {
+    return { kind: 'no-minimum', reason: 'beyond-horizon', continuousWeek }
+  }
+
+  const candidates = [Math.floor(continuousWeek), Math.ceil(continuousWeek)]
+    .map(t => Math.min(horizon, Math.max(1, t)))
+  let week = candidates[0]
+  let cost = amortizedCostForFee(h, S, week, level, growth)
+  for (const t of candidates.slice(1)) {
+    const candidateCost = amortizedCostForFee(h, S, t, level, growth)
+    if (candidateCost < cost) {
+      week = t
+      cost = candidateCost
+    }
+  }
+
+  return {
+    kind: 'minimum',
+    week,
+    cost,
+    continuousWeek,
+    continuousCost: amortizedCostForFee(h, S, continuousWeek, level, growth),
+  }
+}
+
+// Human-readable explanation of a missing optimum
+export function describeNoMinimum(reason: NoMinimumReason, horizon: number = OPTIMIZATION_HORIZON): string {
+  if (reason === 'no-growth') {
+    return 'No optimum: without salary growth the amortized cost keeps falling'
+  }
+  if (reason === 'capped') {
+    return 'No optimum: once the salary cap is reached the amortized cost keeps falling'
+  }
+  return `No optimum within ${horizon} weeks`
+}
+
+// Optimal duration for an explicit hiring fee h, or null when none exists
+export function findOptimalDuration(h: number, S: number, level: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): OptimalDuration | null {
+  const solution = solveOptimalDuration(h, S, level, growth)
+  return solution.kind === 'minimum' ? solution : null
+}
+
+// Optimum using the market hiring fee h(S,ℓ)
+export function solveAmortizedCostMinimum(S: number, level: number, hiringFormula: HiringCostFormula, growth: GrowthModel = DEFAULT_GROWTH_MODEL): OptimumSolution {
+  return solveOptimalDuration(hiringCost(S, level, hiringFormula), S, level, growth)
+}
+
+// Optimal duration using the market hiring fee h(S,ℓ)
+export function findAmortizedCostMinimum(S: number, level: number, hiringFormula: HiringCostFormula, growth: GrowthModel = DEFAULT_GROWTH_MODEL): OptimalDuration | null {
+  return findOptimalDuration(hiringCost(S, level, hiringFormula), S, level, growth)
+}
+
+// Find the hiring fee whose optimal amortized cost equals targetCost.
+// Returns null when the target is out of reach within [MIN_HIRING_FEE, MAX_HIRING_FEE].
+export function findHiringCostForTarget(targetCost: number, S: number, level: number, growth: GrowthModel = DEFAULT_GROWTH_MODEL): TargetHiringCost | null {
+  let low = MIN_HIRING_FEE
+  let high = MAX_HIRING_FEE
+  let best: TargetHiringCost | null = null
+
+  for (let iter = 0; iter < 50; iter++) {
+    const mid = (low + high) / 2
+    const optimum = solveOptimalDuration(mid, S, level, growth)
+    if (optimum.kind === 'no-minimum') {
+      if (optimum.reason === 'no-growth') return null
+      high = mid // Fee so large the optimum runs past the horizon or the cap
+      continue
+    }
+
+    best = { hiringCost: mid, duration: optimum.week }
+
+    if (Math.abs(optimum.cost - targetCost) < 1) break
+
+    if (optimum.cost > targetCost) {
+      high = mid // Too expensive, reduce hiring cost
+    } else {
+      low = mid // Too cheap, increase hiring cost
+    }
+  }
+
+  // Results pinned against the search bounds mean the target is unreachable
+  if (!best || best.hiringCost <= MIN_HIRING_FEE + 1 || best.hiringCost >= MAX_HIRING_FEE - 1) {
+    return null
+  }
+
+  return best
+}
+
+// Starting salary that grows to `currentSalary` after `weeksEmployed` weeks.
+// Under linear growth the raise depends on the starting salary, not the
+// current one, so a known current salary has to be traced back to it. A
+// salary at or above the cap no longer grows and stands for itself.
+export function impliedStartingSalary(
+  currentSalary: number,
+  weeksEmployed: number,
+  level: number,
+  growth: GrowthModel = DEFAULT_GROWTH_MODEL,
+): number {
+  if (growth.maxSalary !== null && currentSalary >= growth.maxSalary) return currentSalary
+  return currentSalary / uncappedPath(1, growthFactor(level, growth), growth.kind).week(weeksEmployed)
+}
+
+// Keep-vs-replace for a staff member hired at `startingSalary` and employed
+// for `weeksEmployed` weeks. What they cost so far is sunk. Replacing them
+// starts an endless cycle of optimal hires at A* per week, so keeping them
+// one more week pays off exactly while next week's salary is below A*.
+// Savings are present values when discounting. Returns null when the
+// replacement hire has no optimum.
+export function decideKeepOrReplace(
+  startingSalary: number,
+  weeksEmployed: number,
+  level: number,
+  replacementSalary: number,
+  hiringFormula: HiringCostFormula,
+  growth: GrowthModel = DEFAULT_GROWTH_MODEL,
+): KeepOrReplaceDecision | null {
+  const replacement = findAmortizedCostMinimum(replacementSalary, level, hiringFormula, growth)
+  if (!replacement) return null
+
+  let replaceInWeeks = 0
+  let savings = 0
+  while (replaceInWeeks < OPTIMIZATION_HORIZON) {
+    const nextSalary = weeklySalary(startingSalary, weeksEmployed + replaceInWeeks + 1, level, growth)
+    if (nextSalary >= replacement.cost) break
+    savings += (replacement.cost - nextSalary) * discountFactor(replaceInWeeks + 1, growth)
+    replaceInWeeks++
+  }
+
+  return {
+    replacement,
+    replacementFee: hiringCost(replacementSalary, level, hiringFormula),
+    replaceInWeeks,
+    savings,
+  }
+}
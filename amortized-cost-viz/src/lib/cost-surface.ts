@@ -0,0 +1,60 @@
+// A(S,T) over starting salary and weeks kept, for one level.
+//
+// Each column is one starting salary: its amortized cost at every week up
+// to the horizon, the optimum (the ridge of the valley) and the weeks whose
+// cost is within a tolerance of that optimum. A wide band means the firing
+// week has plenty of slack at that salary.
+
+import {
+  GrowthModel,
+  HiringCostFormula,
+  OptimalDuration,
+  amortizedCostForFee,
+  hiringCost,
+  solveOptimalDuration,
+} from "@/lib/cost-model"
+import { heatmapStep } from "@/lib/heatmap"
+import { SalaryRange, salarySweep } from "@/lib/roles"
+
+export interface WeekBand {
+  from: number
+  to: number
+}
+
+export interface CostSurfaceColumn {
+  salary: number
+  hiringFee: number
+  costs: number[] // A(S,T) for T = 1..horizon
+  optimum: OptimalDuration | null // Within the horizon
+  band: WeekBand | null // Weeks within the tolerance of the optimum
+}
+
+export const NEAR_OPTIMUM_TOLERANCE = 0.02
+
+// A(T) is unimodal, so the weeks within the tolerance are one run around the optimum
+export function nearOptimumWeeks(costs: number[], optimum: OptimalDuration | null, tolerance: number = NEAR_OPTIMUM_TOLERANCE): WeekBand | null {
+  if (!optimum) return null
+  const limit = optimum.cost * (1 + tolerance)
+  let from = optimum.week
+  let to = optimum.week
+  while (from > 1 && costs[from - 2] <= limit) from--
+  while (to < costs.length && costs[to] <= limit) to++
+  return { from, to }
+}
+
+export function buildCostSurface(
+  range: SalaryRange,
+  level: number,
+  formula: HiringCostFormula,
+  growth: GrowthModel,
+  horizon: number,
+  tolerance: number = NEAR_OPTIMUM_TOLERANCE,
+): CostSurfaceColumn[] {
+  return salarySweep(range, heatmapStep(range)).map(salary => {
+    const hiringFee = hiringCost(salary, level, formula)
+    const costs = Array.from({ length: horizon }, (_, i) => amortizedCostForFee(hiringFee, salary, i + 1, level, growth))
+    const solution = solveOptimalDuration(hiringFee, salary, level, growth, horizon)
+    const optimum = solution.kind === 'minimum' ? solution : null
+    return { salary, hiringFee, costs, optimum, band: nearOptimumWeeks(costs, optimum, tolerance) }
+  })
+}
@@ -0,0 +1,49 @@
+// Crossovers: linear curves cross exactly where the algebra says, touching
+// curves and gaps in the data do not count.
+
+import { describe, expect, it } from "vitest"
+import { LevelCurve, describeCrossover, findCrossovers } from "@/lib/crossovers"
+
+// Every third week from 0 to 39, so the crossings below fall between samples
+const WEEKS = Array.from({ length: 14 }, (_, i) => i * 3)
+
+function curve(level: number, cost: (x: number) => number | undefined): LevelCurve {
+  return { level, costs: WEEKS.map(cost) }
+}
+
+describe("findCrossovers", () => {
+  it("places the crossing of two lines at their intersection", () => {
+    // 1000 + 100x = 2000 + 50x at x = 20, cost 3000
+    const crossovers = findCrossovers(WEEKS, [curve(3, x => 1000 + 100 * x), curve(4, x => 2000 + 50 * x)])
+
+    expect(crossovers).toHaveLength(1)
+    expect(crossovers[0].x).toBeCloseTo(20, 10)
+    expect(crossovers[0].cost).toBeCloseTo(3000, 10)
+    expect(crossovers[0]).toMatchObject({ cheaper: 4, dearer: 3 })
+    expect(describeCrossover(crossovers[0])).toBe("Level 4 becomes cheaper than level 3")
+  })
+
+  it("lists the crossings of every pair in order of x", () => {
+    const crossovers = findCrossovers(WEEKS, [
+      curve(3, x => 1000 + 100 * x), // Crosses level 4 at 20 and level 5 at 10
+      curve(4, x => 2000 + 50 * x), // Meets level 5 only at week 0, then stays dearer
+      curve(5, () => 2000),
+    ])
+    expect(crossovers.map(c => [Math.round(c.x), c.cheaper, c.dearer])).toEqual([[10, 5, 3], [20, 4, 3]])
+  })
+
+  it("does not count a curve that only touches another", () => {
+    expect(findCrossovers(WEEKS, [curve(3, x => Math.abs(x - 12)), curve(4, () => 0)])).toEqual([])
+  })
+
+  it("steps over a tie on a sample to the sign change around it", () => {
+    const crossovers = findCrossovers(WEEKS, [curve(3, x => 24 - x), curve(4, () => 12)])
+    expect(crossovers).toHaveLength(1)
+    expect(crossovers[0].x).toBeCloseTo(12, 10)
+  })
+
+  it("does not bridge a gap in either curve", () => {
+    const withGap = curve(4, x => (x >= 18 && x <= 21 ? undefined : 2000 + 50 * x))
+    expect(findCrossovers(WEEKS, [curve(3, x => 1000 + 100 * x), withGap])).toEqual([])
+  })
+})
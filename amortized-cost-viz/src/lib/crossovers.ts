@@ -0,0 +1,62 @@
+// Crossovers between the cost curves of several levels.
+//
+// The charts sample each level's cost at shared x values (weeks or
+// salaries). Where the difference of two curves changes sign between two
+// samples, the crossing is placed by linear interpolation; past it the
+// other level is the cheaper one. Ties on a sample are skipped over so a
+// curve that only touches another is not a crossover.
+
+export interface LevelCurve {
+  level: number
+  costs: (number | undefined)[] // Cost at each x; undefined where the level has none
+}
+
+export interface Crossover {
+  x: number
+  cost: number
+  cheaper: number // The level that is cheaper after x
+  dearer: number
+}
+
+function pairCrossovers(xs: number[], first: LevelCurve, second: LevelCurve): Crossover[] {
+  const crossovers: Crossover[] = []
+  let last: { index: number; difference: number } | null = null
+
+  xs.forEach((x, i) => {
+    const a = first.costs[i]
+    const b = second.costs[i]
+    // A gap in either curve breaks the comparison
+    if (a === undefined || b === undefined) {
+      last = null
+      return
+    }
+    const difference = a - b
+    if (difference === 0) return
+
+    if (last && Math.sign(last.difference) !== Math.sign(difference)) {
+      const t = last.difference / (last.difference - difference)
+      const previous = first.costs[last.index]!
+      crossovers.push({
+        x: xs[last.index] + t * (x - xs[last.index]),
+        cost: previous + t * (a - previous),
+        cheaper: difference < 0 ? first.level : second.level,
+        dearer: difference < 0 ? second.level : first.level,
+      })
+    }
+    last = { index: i, difference }
+  })
+
+  return crossovers
+}
+
+// Every crossing of every pair of curves, in order of x
+export function findCrossovers(xs: number[], curves: LevelCurve[]): Crossover[] {
+  return curves
+    .flatMap((first, a) => curves.slice(a + 1).map(second => pairCrossovers(xs, first, second)))
+    .flat()
+    .sort((p, q) => p.x - q.x)
+}
+
+export function describeCrossover(crossover: Crossover): string {
+  return `Level ${crossover.cheaper} becomes cheaper than level ${crossover.dearer}`
+}
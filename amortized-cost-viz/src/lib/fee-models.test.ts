@@ -0,0 +1,105 @@
+// Fitted fee models: exact data is recovered with R² = 1, and the isotonic
+// fit pools the observations that break the downward trend.
+
+import { describe, expect, it } from "vitest"
+import type { HiringCostPoint } from "@/lib/cost-model"
+import { evaluateFeeFit, fitHiringFeeModel, rSquared } from "@/lib/fee-models"
+
+const FLOOR = 1000
+const SALARIES = [5000, 5500, 6000, 6500, 7000, 7500, 8000, 8500, 9000]
+
+function sample(curve: (salary: number) => number): HiringCostPoint[] {
+  return SALARIES.map(salary => ({ salary, cost: curve(salary) }))
+}
+
+describe("rSquared", () => {
+  const points = [
+    { salary: 5000, cost: 30000 },
+    { salary: 6000, cost: 20000 },
+    { salary: 7000, cost: 10000 },
+  ]
+
+  it("is 1 for an exact fit and 0 for the mean", () => {
+    expect(rSquared(points, salary => 30000 - (salary - 5000) * 10)).toBe(1)
+    expect(rSquared(points, () => 20000)).toBe(0)
+  })
+
+  it("compares residuals against the spread around the mean", () => {
+    // Residuals 1000, 0, 1000 against a total of 2×10000²
+    expect(rSquared(points, salary => (salary === 6000 ? 20000 : 20000 + (6000 - salary) * 9))).toBeCloseTo(0.99, 10)
+  })
+
+  it("treats constant fees as perfectly explained only without residuals", () => {
+    const flat = [{ salary: 5000, cost: 1000 }, { salary: 6000, cost: 1000 }]
+    expect(rSquared(flat, () => 1000)).toBe(1)
+    expect(rSquared(flat, () => 2000)).toBe(0)
+  })
+})
+
+describe("fitHiringFeeModel", () => {
+  it("leaves interpolated levels and empty data unfitted", () => {
+    expect(fitHiringFeeModel("interpolated", sample(() => 5000), FLOOR)).toBeNull()
+    expect(fitHiringFeeModel("exponential", [], FLOOR)).toBeNull()
+  })
+
+  it("recovers an exact exponential decay", () => {
+    const curve = (salary: number) => FLOOR + 50000 * Math.exp(-0.001 * (salary - 5000))
+    const fit = fitHiringFeeModel("exponential", sample(curve), FLOOR)!
+
+    expect(fit.rSquared).toBeCloseTo(1, 6)
+    expect(fit.coefficients[0]).toBe(FLOOR)
+    expect(fit.coefficients[1]).toBeCloseTo(50000, -1)
+    expect(fit.coefficients[2]).toBeCloseTo(0.001, 5)
+    expect(fit.coefficients[3]).toBe(5000)
+    expect(evaluateFeeFit(fit, 7250)).toBeCloseTo(curve(7250), -1)
+  })
+
+  it("recovers an exact logistic step", () => {
+    const curve = (salary: number) => FLOOR + 40000 / (1 + Math.exp(0.004 * (salary - 7000)))
+    const fit = fitHiringFeeModel("logistic", sample(curve), FLOOR)!
+
+    expect(fit.rSquared).toBeCloseTo(1, 4)
+    expect(fit.coefficients[3]).toBeCloseTo(7000, -1)
+    expect(evaluateFeeFit(fit, 7000)).toBeCloseTo(curve(7000), -2)
+  })
+
+  it("fits observations in any order", () => {
+    const curve = (salary: number) => FLOOR + 50000 * Math.exp(-0.001 * (salary - 5000))
+    const shuffled = [...sample(curve)].reverse()
+    expect(fitHiringFeeModel("exponential", shuffled, FLOOR)).toEqual(fitHiringFeeModel("exponential", sample(curve), FLOOR))
+  })
+
+  it("pools adjacent fees that rise with salary", () => {
+    const points = [
+      { salary: 8000, cost: 1000 },
+      { salary: 5000, cost: 30000 },
+      { salary: 6000, cost: 20000 },
+      { salary: 7000, cost: 25000 },
+    ]
+    const fit = fitHiringFeeModel("isotonic", points, FLOOR)!
+
+    expect(fit.knots).toEqual([
+      { salary: 5000, cost: 30000 },
+      { salary: 6000, cost: 22500 },
+      { salary: 7000, cost: 22500 },
+      { salary: 8000, cost: 1000 },
+    ])
+    expect(fit.equation).toContain("3 steps through 4 points")
+    expect(fit.rSquared).toBeCloseTo(rSquared(points, salary => evaluateFeeFit(fit, salary)), 10)
+    expect(fit.rSquared).toBeLessThan(1)
+  })
+
+  it("fits non-increasing data exactly, interpolating between knots and flat beyond them", () => {
+    const points = [
+      { salary: 5000, cost: 30000 },
+      { salary: 6000, cost: 10000 },
+      { salary: 7000, cost: 1000 },
+    ]
+    const fit = fitHiringFeeModel("isotonic", points, FLOOR)!
+
+    expect(fit.rSquared).toBe(1)
+    expect(evaluateFeeFit(fit, 5500)).toBe(20000)
+    expect(evaluateFeeFit(fit, 4000)).toBe(30000)
+    expect(evaluateFeeFit(fit, 9000)).toBe(1000)
+  })
+})
@@ -0,0 +1,211 @@
+// Fitted hiring-fee models.
+//
+// The market data is a handful of (salary, fee) observations per level.
+// Besides passing a line through every point, a level can be fitted with:
+//
+// - exponential  h(S) = F + a·e^(-b·(S - S₀))          decay toward the floor F
+// - logistic     h(S) = F + A / (1 + e^(k·(S - m)))    a smooth step down to F
+// - isotonic     best non-increasing fit (pool adjacent violators)
+//
+// F is MIN_HIRING_FEE. Non-linear parameters are found by a grid search
+// refined around the best cell; the linear amplitude then has a closed form.
+
+import type { HiringCostPoint } from "@/lib/cost-model"
+
+export type HiringFeeModel = 'interpolated' | 'exponential' | 'logistic' | 'isotonic'
+
+export interface HiringFeeFit {
+  model: HiringFeeModel
+  equation: string
+  rSquared: number
+  coefficients: number[] // exponential: [F, a, b, S₀], logistic: [F, A, k, m]
+  knots: HiringCostPoint[] // isotonic: fitted fee at each observed salary
+}
+
+export const HIRING_FEE_MODELS: { value: HiringFeeModel; label: string }[] = [
+  { value: 'interpolated', label: 'Linear interpolation' },
+  { value: 'exponential', label: 'Exponential decay' },
+  { value: 'logistic', label: 'Logistic step' },
+  { value: 'isotonic', label: 'Isotonic (non-increasing)' },
+]
+
+function sortBySalary(points: HiringCostPoint[]): HiringCostPoint[] {
+  return [...points].sort((a, b) => a.salary - b.salary)
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString()
+}
+
+function formatRate(value: number): string {
+  return value.toPrecision(3)
+}
+
+export function rSquared(points: HiringCostPoint[], predict: (salary: number) => number): number {
+  const mean = points.reduce((sum, p) => sum + p.cost, 0) / points.length
+  const total = points.reduce((sum, p) => sum + (p.cost - mean) ** 2, 0)
+  const residual = points.reduce((sum, p) => sum + (p.cost - predict(p.salary)) ** 2, 0)
+  return total === 0 ? (residual === 0 ? 1 : 0) : 1 - residual / total
+}
+
+// Least-squares amplitude for y - F ≈ amplitude × shape(S), clamped at zero
+function fitAmplitude(points: HiringCostPoint[], floor: number, shape: (salary: number) => number): number {
+  let numerator = 0
+  let denominator = 0
+  for (const p of points) {
+    const s = shape(p.salary)
+    numerator += (p.cost - floor) * s
+    denominator += s * s
+  }
+  return denominator > 0 ? Math.max(0, numerator / denominator) : 0
+}
+
+function sumOfSquares(points: HiringCostPoint[], predict: (salary: number) => number): number {
+  return points.reduce((sum, p) => sum + (p.cost - predict(p.salary)) ** 2, 0)
+}
+
+// Minimizes `loss` over a log-spaced range by a coarse scan and repeated zooming
+function searchLog(loss: (value: number) => number, min: number, max: number): number {
+  let low = Math.log(min)
+  let high = Math.log(max)
+  let best = (low + high) / 2
+
+  for (let round = 0; round < 6; round++) {
+    const step = (high - low) / 40
+    let bestLoss = Infinity
+    for (let x = low; x <= high + 1e-12; x += step) {
+      const value = loss(Math.exp(x))
+      if (value < bestLoss) {
+        bestLoss = value
+        best = x
+      }
+    }
+    low = best - step
+    high = best + step
+  }
+
+  return Math.exp(best)
+}
+
+function fitExponential(points: HiringCostPoint[], floor: number): HiringFeeFit {
+  const origin = points[0].salary
+  const shape = (b: number) => (salary: number) => Math.exp(-b * (salary - origin))
+  const predictor = (b: number) => {
+    const a = fitAmplitude(points, floor, shape(b))
+    return (salary: number) => floor + a * shape(b)(salary)
+  }
+
+  const b = searchLog(rate => sumOfSquares(points, predictor(rate)), 1e-6, 1e-1)
+  const a = fitAmplitude(points, floor, shape(b))
+
+  return {
+    model: 'exponential',
+    equation: `h(S) = ${formatNumber(floor)} + ${formatNumber(a)}·e^(-${formatRate(b)}·(S - ${formatNumber(origin)}))`,
+    rSquared: rSquared(points, predictor(b)),
+    coefficients: [floor, a, b, origin],
+    knots: [],
+  }
+}
+
+function fitLogistic(points: HiringCostPoint[], floor: number): HiringFeeFit {
+  const shape = (k: number, m: number) => (salary: number) => 1 / (1 + Math.exp(k * (salary - m)))
+  const predictor = (k: number, m: number) => {
+    const A = fitAmplitude(points, floor, shape(k, m))
+    return (salary: number) => floor + A * shape(k, m)(salary)
+  }
+
+  // The midpoint is scanned across the observed salaries, the steepness per midpoint
+  const low = points[0].salary
+  const high = points[points.length - 1].salary
+  let best = { k: 1e-3, m: (low + high) / 2, loss: Infinity }
+  let span = high - low || 1000
+
+  for (let round = 0; round < 4; round++) {
+    const center = best.m
+    for (let i = 0; i <= 40; i++) {
+      const m = center - span / 2 + (span * i) / 40
+      const k = searchLog(rate => sumOfSquares(points, predictor(rate, m)), 1e-5, 1e-1)
+      const loss = sumOfSquares(points, predictor(k, m))
+      if (loss < best.loss) best = { k, m, loss }
+    }
+    span /= 10
+  }
+
+  const A = fitAmplitude(points, floor, shape(best.k, best.m))
+
+  return {
+    model: 'logistic',
+    equation: `h(S) = ${formatNumber(floor)} + ${formatNumber(A)} / (1 + e^(${formatRate(best.k)}·(S - ${formatNumber(best.m)})))`,
+    rSquared: rSquared(points, predictor(best.k, best.m)),
+    coefficients: [floor, A, best.k, best.m],
+    knots: [],
+  }
+}
+
+// Pool adjacent violators for a non-increasing fit; points must be sorted by salary
+function fitIsotonic(points: HiringCostPoint[]): HiringFeeFit {
+  const blocks: { cost: number; weight: number; count: number }[] = []
+
+  for (const p of points) {
+    blocks.push({ cost: p.cost, weight: 1, count: 1 })
+    while (blocks.length > 1 && blocks[blocks.length - 2].cost < blocks[blocks.length - 1].cost) {
+      const last = blocks.pop()!
+      const previous = blocks[blocks.length - 1]
+      const weight = previous.weight + last.weight
+      previous.cost = (previous.cost * previous.weight + last.cost * last.weight) / weight
+      previous.weight = weight
+      previous.count += last.count
+    }
+  }
+
+  const knots: HiringCostPoint[] = []
+  let index = 0
+  for (const block of blocks) {
+    for (let i = 0; i < block.count; i++) {
+      knots.push({ salary: points[index++].salary, cost: block.cost })
+    }
+  }
+
+  const fit: HiringFeeFit = {
+    model: 'isotonic',
+    equation: `h(S) non-increasing, ${blocks.length} step${blocks.length === 1 ? '' : 's'} through ${points.length} points`,
+    rSquared: 0,
+    coefficients: [],
+    knots,
+  }
+  fit.rSquared = rSquared(points, salary => evaluateFeeFit(fit, salary))
+  return fit
+}
+
+// Fits `model` to one level's observations. Returns null for plain interpolation.
+export function fitHiringFeeModel(model: HiringFeeModel, points: HiringCostPoint[], floor: number): HiringFeeFit | null {
+  if (model === 'interpolated' || points.length === 0) return null
+
+  const sorted = sortBySalary(points)
+  if (model === 'exponential') return fitExponential(sorted, floor)
+  if (model === 'logistic') return fitLogistic(sorted, floor)
+  return fitIsotonic(sorted)
+}
+
+export function evaluateFeeFit(fit: HiringFeeFit, salary: number): number {
+  if (fit.model === 'exponential') {
+    const [floor, a, b, origin] = fit.coefficients
+    return floor + a * Math.exp(-b * (salary - origin))
+  }
+
+  if (fit.model === 'logistic') {
+    const [floor, A, k, m] = fit.coefficients
+    return floor + A / (1 + Math.exp(k * (salary - m)))
+  }
+
+  // Isotonic: linear between knots, flat beyond the observed salaries
+  const knots = fit.knots
+  if (salary <= knots[0].salary) return knots[0].cost
+  for (let i = 1; i < knots.length; i++) {
+    if (salary <= knots[i].salary) {
+      const ratio = (salary - knots[i - 1].salary) / (knots[i].salary - knots[i - 1].salary)
+      return knots[i - 1].cost + ratio * (knots[i].cost - knots[i - 1].cost)
+    }
+  }
+  return knots[knots.length - 1].cost
+}
@@ -0,0 +1,25 @@
+// App-wide growth model settings, persisted like the market data.
+// Role overrides of g(ℓ) are layered on top (see roleGrowthModel).
+
+import { DEFAULT_GROWTH_MODEL, GrowthModel, isGrowthModel } from "@/lib/cost-model"
+import { createPersistentStore } from "@/lib/persistent-store"
+
+export const GROWTH_MODEL_STORAGE_KEY = "bb-staff:growth-model"
+export const GROWTH_MODEL_SCHEMA_VERSION = 2
+
+const store = createPersistentStore<GrowthModel>({
+  key: GROWTH_MODEL_STORAGE_KEY,
+  version: GROWTH_MODEL_SCHEMA_VERSION,
+  initial: DEFAULT_GROWTH_MODEL,
+  migrations: {
+    // Discounting, off by default
+    1: (data) => ({ ...(data as GrowthModel), discountRate: 0 }),
+  },
+  isValid: isGrowthModel,
+})
+
+export const getGrowthModel = store.get
+export const getServerGrowthModel = store.getServer
+export const setGrowthModel = store.set
+export const resetGrowthModel = store.reset
+export const subscribeGrowthModel = store.subscribe
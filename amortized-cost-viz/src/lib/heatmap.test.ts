@@ -0,0 +1,83 @@
+// Heatmap grid and budget contour: the contour runs along the cell edges
+// that separate affordable optima from the rest.
+
+import { describe, expect, it } from "vitest"
+import { DEFAULT_GROWTH_MODEL, INITIAL_HIRING_DATA, findAmortizedCostMinimum, generateHiringFormula } from "@/lib/cost-model"
+import { HeatmapGrid, budgetContour, buildHeatmap, heatmapColor, heatmapStep } from "@/lib/heatmap"
+
+// A grid from optimal costs alone; null cells have no optimum
+function grid(costs: (number | null)[][]): HeatmapGrid {
+  return {
+    levels: costs.map((_, r) => r + 1),
+    salaries: costs[0].map((_, c) => 5000 + c * 100),
+    cells: costs.map((row, r) => row.map((cost, c) => ({
+      level: r + 1,
+      salary: 5000 + c * 100,
+      hiringFee: 1000,
+      optimum: cost === null ? null : { week: 10, cost, continuousWeek: 10, continuousCost: cost },
+    }))),
+    minCost: null,
+    maxCost: null,
+  }
+}
+
+describe("budgetContour", () => {
+  it("draws a square around a single cell under budget", () => {
+    const segments = budgetContour(grid([[900, 900, 900], [900, 500, 900], [900, 900, 900]]), 600)
+    expect(segments).toHaveLength(4)
+    expect(segments).toEqual(expect.arrayContaining([
+      { x1: 1, y1: 1, x2: 2, y2: 1 }, // Top
+      { x1: 1, y1: 1, x2: 1, y2: 2 }, // Left
+      { x1: 2, y1: 1, x2: 2, y2: 2 }, // Right
+      { x1: 1, y1: 2, x2: 2, y2: 2 }, // Bottom
+    ]))
+  })
+
+  it("counts a cost equal to the budget as within it", () => {
+    expect(budgetContour(grid([[600, 900]]), 600)).toEqual([{ x1: 1, y1: 0, x2: 1, y2: 1 }])
+  })
+
+  it("leaves the grid's outer edge and cells without an optimum outside the contour", () => {
+    expect(budgetContour(grid([[500, 500], [500, 500]]), 600)).toEqual([])
+    expect(budgetContour(grid([[500, null]]), 10000)).toEqual([{ x1: 1, y1: 0, x2: 1, y2: 1 }])
+  })
+
+  it("separates rows along a horizontal edge", () => {
+    expect(budgetContour(grid([[500, 500], [900, 900]]), 600)).toEqual([
+      { x1: 0, y1: 1, x2: 1, y2: 1 },
+      { x1: 1, y1: 1, x2: 2, y2: 1 },
+    ])
+  })
+})
+
+describe("buildHeatmap", () => {
+  const formula = generateHiringFormula(INITIAL_HIRING_DATA)
+
+  it("leaves out levels without fee data and holds each cell's optimum", () => {
+    const heatmap = buildHeatmap({ min: 7000, max: 11000 }, [2, 3, 4], formula, DEFAULT_GROWTH_MODEL)
+
+    expect(heatmap.levels).toEqual([3, 4])
+    expect(heatmap.salaries).toHaveLength(41) // $100 steps from $7,000 to $11,000
+    expect(heatmap.cells[1][40]).toMatchObject({ level: 4, salary: 11000 })
+    expect(heatmap.cells[0][0].optimum).toEqual(findAmortizedCostMinimum(7000, 3, formula, DEFAULT_GROWTH_MODEL))
+
+    const costs = heatmap.cells.flat().flatMap(cell => (cell.optimum ? [cell.optimum.cost] : []))
+    expect(heatmap.minCost).toBe(Math.min(...costs))
+    expect(heatmap.maxCost).toBe(Math.max(...costs))
+  })
+})
+
+describe("heatmapStep and heatmapColor", () => {
+  it("rounds the step to $100, at least $100", () => {
+    expect(heatmapStep({ min: 4000, max: 8000 })).toBe(100)
+    expect(heatmapStep({ min: 4000, max: 12000 })).toBe(200)
+    expect(heatmapStep({ min: 4000, max: 4500 })).toBe(100)
+  })
+
+  it("runs from green at the cheapest cell to red at the dearest", () => {
+    expect(heatmapColor(100, 100, 300)).toBe("hsl(120 70% 45%)")
+    expect(heatmapColor(200, 100, 300)).toBe("hsl(60 70% 45%)")
+    expect(heatmapColor(300, 100, 300)).toBe("hsl(0 70% 45%)")
+    expect(heatmapColor(100, 100, 100)).toBe("hsl(120 70% 45%)")
+  })
+})
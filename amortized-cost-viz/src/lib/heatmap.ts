@@ -0,0 +1,98 @@
+// Optimal weekly cost over the salary × level grid.
+//
+// Each cell holds the optimum at one starting salary and level. Levels
+// without fee data have no cells. The budget contour is traced along cell
+// edges: it separates the cells whose optimal weekly cost is within the
+// budget from the rest, so it follows the grid rather than interpolating.
+
+import {
+  GrowthModel,
+  HiringCostFormula,
+  OptimalDuration,
+  findAmortizedCostMinimum,
+  hiringCost,
+} from "@/lib/cost-model"
+import { SalaryRange, salarySweep } from "@/lib/roles"
+
+export interface HeatmapCell {
+  level: number
+  salary: number
+  hiringFee: number
+  optimum: OptimalDuration | null
+}
+
+export interface HeatmapGrid {
+  levels: number[] // Rows, with levels lacking fee data left out
+  salaries: number[] // Columns
+  cells: HeatmapCell[][] // cells[row][column]
+  minCost: number | null // Over the cells that have an optimum
+  maxCost: number | null
+}
+
+// Edge between two cells, in cell units: x counts columns and y rows from the top left
+export interface ContourSegment {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+// Columns the salary range is split into, before rounding the step
+export const HEATMAP_COLUMNS = 40
+
+// Salary step for the range, rounded to $100
+export function heatmapStep(range: SalaryRange, columns: number = HEATMAP_COLUMNS): number {
+  return Math.max(100, Math.round((range.max - range.min) / columns / 100) * 100)
+}
+
+export function buildHeatmap(
+  range: SalaryRange,
+  levels: number[],
+  formula: HiringCostFormula,
+  growth: GrowthModel,
+): HeatmapGrid {
+  const salaries = salarySweep(range, heatmapStep(range))
+  const rows = levels.filter(level => formula.parameters[level])
+  const cells = rows.map(level => salaries.map(salary => ({
+    level,
+    salary,
+    hiringFee: hiringCost(salary, level, formula),
+    optimum: findAmortizedCostMinimum(salary, level, formula, growth),
+  })))
+
+  const costs = cells.flat().flatMap(cell => (cell.optimum ? [cell.optimum.cost] : []))
+  return {
+    levels: rows,
+    salaries,
+    cells,
+    minCost: costs.length > 0 ? Math.min(...costs) : null,
+    maxCost: costs.length > 0 ? Math.max(...costs) : null,
+  }
+}
+
+// Green for the cheapest cell through to red for the dearest
+export function heatmapColor(cost: number, minCost: number, maxCost: number): string {
+  const t = maxCost > minCost ? (cost - minCost) / (maxCost - minCost) : 0
+  return `hsl(${Math.round(120 * (1 - t))} 70% 45%)`
+}
+
+function withinBudget(cell: HeatmapCell | undefined, budget: number): boolean {
+  return !!cell?.optimum && cell.optimum.cost <= budget
+}
+
+// Edges between cells on either side of the budget
+export function budgetContour(grid: HeatmapGrid, budget: number): ContourSegment[] {
+  const segments: ContourSegment[] = []
+  grid.cells.forEach((row, r) => {
+    row.forEach((cell, c) => {
+      const inside = withinBudget(cell, budget)
+      if (c + 1 < row.length && inside !== withinBudget(row[c + 1], budget)) {
+        segments.push({ x1: c + 1, y1: r, x2: c + 1, y2: r + 1 })
+      }
+      if (r + 1 < grid.cells.length && inside !== withinBudget(grid.cells[r + 1][c], budget)) {
+        segments.push({ x1: c, y1: r + 1, x2: c + 1, y2: r + 1 })
+      }
+    })
+  })
+  return segments
+}
@@ -0,0 +1,28 @@
+// The user's level registry, persisted like the growth model. Levels the
+// user has not touched keep their DEFAULT_LEVEL_REGISTRY entries.
+
+import { DEFAULT_LEVEL_REGISTRY, LevelRegistry, isLevelRegistry, levelDefinition } from "@/lib/levels"
+import { createPersistentStore } from "@/lib/persistent-store"
+
+export const LEVEL_REGISTRY_STORAGE_KEY = "bb-staff:level-registry"
+export const LEVEL_REGISTRY_SCHEMA_VERSION = 2
+
+const store = createPersistentStore<LevelRegistry>({
+  key: LEVEL_REGISTRY_STORAGE_KEY,
+  version: LEVEL_REGISTRY_SCHEMA_VERSION,
+  initial: DEFAULT_LEVEL_REGISTRY,
+  migrations: {
+    // Default value per week, for the value-for-money view
+    1: (data) => Object.fromEntries(Object.entries(data as LevelRegistry).map(([level, definition]) => [
+      level,
+      { ...definition, weeklyValue: levelDefinition(Number(level)).weeklyValue },
+    ])),
+  },
+  isValid: isLevelRegistry,
+})
+
+export const getLevelRegistry = store.get
+export const getServerLevelRegistry = store.getServer
+export const setLevelRegistry = store.set
+export const resetLevelRegistry = store.reset
+export const subscribeLevelRegistry = store.subscribe
@@ -0,0 +1,96 @@
+// Level registry: what the app knows about each staff level.
+//
+// Names, the salary range charted when a role does not override it, the
+// steps of salary sweeps and axis ticks, the max hiring fee chart's default
+// targets and the value-for-money view's default worth all live here instead
+// of in each component. The user can edit the registry; the generator
+// script reads the defaults.
+
+import { STAFF_LEVELS } from "@/lib/cost-model"
+import type { SalaryRange } from "@/lib/roles"
+
+export interface LevelDefinition {
+  name: string
+  salaryRange: SalaryRange // Charted unless a role overrides it
+  sweepStep: number // $ between the salaries of chart sweeps
+  tickStep: number // $ between axis ticks and hiring cost table rows
+  targetCosts: number[] // Default max hiring fee targets; empty generates them from the market data
+  weeklyValue: number // $ per week a staff member is worth, until the user enters their own
+  featured: boolean // Listed in the hiring cost dialog without expanding it
+}
+
+export interface LevelRegistry {
+  [level: number]: LevelDefinition
+}
+
+export const DEFAULT_LEVEL_REGISTRY: LevelRegistry = {
+  1: { name: "Minimal", salaryRange: { min: 1000, max: 3000 }, sweepStep: 100, tickStep: 500, targetCosts: [], weeklyValue: 3500, featured: false },
+  2: { name: "Basic", salaryRange: { min: 2000, max: 5000 }, sweepStep: 100, tickStep: 500, targetCosts: [], weeklyValue: 6000, featured: false },
+  3: {
+    name: "Competent",
+    salaryRange: { min: 4000, max: 8000 },
+    sweepStep: 200,
+    tickStep: 1000,
+    targetCosts: [7000, 8000, 9000, 10000],
+    weeklyValue: 10000,
+    featured: true,
+  },
+  4: {
+    name: "Advanced",
+    salaryRange: { min: 7000, max: 11000 },
+    sweepStep: 200,
+    tickStep: 1000,
+    targetCosts: [9000, 10000, 11000, 12000, 13000, 14000],
+    weeklyValue: 14000,
+    featured: true,
+  },
+  5: {
+    name: "Superior",
+    salaryRange: { min: 10000, max: 20000 },
+    sweepStep: 200,
+    tickStep: 2000,
+    targetCosts: [14000, 16000, 18000, 20000, 22000, 24000, 26000],
+    weeklyValue: 26000,
+    featured: false,
+  },
+  6: { name: "Exceptional", salaryRange: { min: 18000, max: 36000 }, sweepStep: 500, tickStep: 4000, targetCosts: [], weeklyValue: 42000, featured: false },
+  7: { name: "World-renowned", salaryRange: { min: 30000, max: 60000 }, sweepStep: 500, tickStep: 5000, targetCosts: [], weeklyValue: 70000, featured: false },
+}
+
+// Smallest sweep or tick step, so an edited registry cannot ask for huge sweeps
+export const MIN_LEVEL_STEP = 50
+
+// A level missing from the registry falls back to its default entry
+export function levelDefinition(level: number, registry: LevelRegistry = DEFAULT_LEVEL_REGISTRY): LevelDefinition {
+  return registry[level] ?? DEFAULT_LEVEL_REGISTRY[level] ?? {
+    name: `Level ${level}`,
+    salaryRange: { min: 1000, max: 10000 },
+    sweepStep: 200,
+    tickStep: 1000,
+    targetCosts: [],
+    weeklyValue: 10000,
+    featured: false,
+  }
+}
+
+// Shape check for registries read from storage or a share link
+export function isLevelRegistry(value: unknown): value is LevelRegistry {
+  const registry = value as LevelRegistry
+  return !!registry && typeof registry === "object" && STAFF_LEVELS.every(level => {
+    const definition = registry[level]
+    return !!definition
+      && typeof definition.name === "string"
+      && !!definition.salaryRange
+      && typeof definition.salaryRange.min === "number"
+      && typeof definition.salaryRange.max === "number"
+      && definition.sweepStep >= MIN_LEVEL_STEP
+      && definition.tickStep >= MIN_LEVEL_STEP
+      && Array.isArray(definition.targetCosts)
+      && typeof definition.weeklyValue === "number"
+      && typeof definition.featured === "boolean"
+  })
+}
+
+export function describeLevel(level: number, registry: LevelRegistry = DEFAULT_LEVEL_REGISTRY): string {
+  return `${level} - ${levelDefinition(level, registry).name}`
+}
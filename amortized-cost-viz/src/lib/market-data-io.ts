@@ -0,0 +1,184 @@
+// Import and export of hiring market data as JSON or CSV.
+//
+// Both formats carry flat (level, salary, fee) rows so spreadsheets can be
+// pasted in directly. Imports are validated strictly and never applied
+// partially: any error rejects the whole file.
+
+import { HiringCostData, STAFF_LEVELS } from "@/lib/cost-model"
+
+export type MarketDataFormat = "json" | "csv"
+
+export interface MarketDataRow {
+  level: number
+  salary: number
+  fee: number
+}
+
+export interface MarketDataImport {
+  data: HiringCostData | null // null when the file has errors
+  rows: MarketDataRow[]
+  errors: string[]
+}
+
+export interface MarketDataChange {
+  level: number
+  salary: number
+  before: number | null
+  after: number | null
+}
+
+// One unvalidated row as read from a file; `line` locates it in error messages
+interface RawRecord {
+  line: string
+  level: unknown
+  salary: unknown
+  fee: unknown
+}
+
+const CSV_HEADER = ["level", "salary", "fee"]
+
+export function marketDataToRows(data: HiringCostData): MarketDataRow[] {
+  const rows: MarketDataRow[] = []
+
+  for (const [levelStr, salaryData] of Object.entries(data)) {
+    for (const [salaryStr, fee] of Object.entries<number | null>(salaryData)) {
+      if (fee !== null) {
+        rows.push({ level: Number(levelStr), salary: Number(salaryStr), fee })
+      }
+    }
+  }
+
+  return rows.sort((a, b) => a.level - b.level || a.salary - b.salary)
+}
+
+export function exportMarketData(data: HiringCostData, format: MarketDataFormat): string {
+  const rows = marketDataToRows(data)
+
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2)
+  }
+
+  return [CSV_HEADER.join(","), ...rows.map(row => `${row.level},${row.salary},${row.fee}`)].join("\n")
+}
+
+// Parse a raw cell, rejecting blanks and anything that is not a plain finite number
+function parseNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value !== "string" || value.trim() === "") return null
+  const parsed = Number(value.trim())
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Validate raw records (from either format) and assemble HiringCostData
+function validateRecords(records: RawRecord[]): MarketDataImport {
+  const errors: string[] = []
+  const rows: MarketDataRow[] = []
+  const seen = new Set<string>()
+
+  for (const record of records) {
+    const level = parseNumber(record.level)
+    const salary = parseNumber(record.salary)
+    const fee = parseNumber(record.fee)
+
+    if (level === null || !STAFF_LEVELS.includes(level)) {
+      errors.push(`${record.line}: unknown level "${String(record.level ?? "")}"`)
+      continue
+    }
+    if (salary === null || salary <= 0) {
+      errors.push(`${record.line}: invalid salary "${String(record.salary ?? "")}"`)
+      continue
+    }
+    if (fee === null || fee < 0) {
+      errors.push(`${record.line}: non-numeric fee "${String(record.fee ?? "")}"`)
+      continue
+    }
+
+    const key = `${level}:${salary}`
+    if (seen.has(key)) {
+      errors.push(`${record.line}: duplicate salary $${salary.toLocaleString()} for level ${level}`)
+      continue
+    }
+    seen.add(key)
+    rows.push({ level, salary, fee })
+  }
+
+  if (records.length === 0) {
+    errors.push("The file contains no data rows")
+  }
+
+  if (errors.length > 0) {
+    return { data: null, rows, errors }
+  }
+
+  const data: HiringCostData = {}
+  for (const row of rows) {
+    data[row.level] = { ...data[row.level], [row.salary]: row.fee }
+  }
+
+  return { data, rows, errors }
+}
+
+function parseJson(text: string): MarketDataImport {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { data: null, rows: [], errors: ["Not valid JSON"] }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { data: null, rows: [], errors: ["Expected an array of { level, salary, fee } objects"] }
+  }
+
+  return validateRecords(parsed.map((item, index) => ({
+    line: `Row ${index + 1}`,
+    level: item?.level,
+    salary: item?.salary,
+    fee: item?.fee,
+  })))
+}
+
+function parseCsv(text: string): MarketDataImport {
+  const lines = text.split(/\r?\n/).map(line => line.trim())
+  const records: RawRecord[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i] === "") continue
+    const cells = lines[i].split(",").map(cell => cell.trim().replace(/^"(.*)"$/, "$1"))
+
+    // Skip the header row
+    if (cells.map(cell => cell.toLowerCase()).join(",") === CSV_HEADER.join(",")) continue
+
+    // Extra cells (e.g. an unquoted "30,000") end up in the fee and fail validation
+    records.push({ line: `Line ${i + 1}`, level: cells[0], salary: cells[1], fee: cells.slice(2).join(",") })
+  }
+
+  return validateRecords(records)
+}
+
+export function importMarketData(text: string, format: MarketDataFormat): MarketDataImport {
+  return format === "json" ? parseJson(text) : parseCsv(text)
+}
+
+// Every (level, salary) cell whose fee differs between two datasets
+export function diffMarketData(before: HiringCostData, after: HiringCostData): MarketDataChange[] {
+  const changes: MarketDataChange[] = []
+  const levels = new Set([...Object.keys(before), ...Object.keys(after)].map(Number))
+
+  for (const level of levels) {
+    const salaries = new Set([
+      ...Object.keys(before[level] ?? {}),
+      ...Object.keys(after[level] ?? {}),
+    ].map(Number))
+
+    for (const salary of salaries) {
+      const oldFee = before[level]?.[salary] ?? null
+      const newFee = after[level]?.[salary] ?? null
+      if (oldFee !== newFee) {
+        changes.push({ level, salary, before: oldFee, after: newFee })
+      }
+    }
+  }
+
+  return changes.sort((a, b) => a.level - b.level || a.salary - b.salary)
+}
@@ -0,0 +1,148 @@
+// Data-quality checks for entered market data.
+//
+// Nothing in HiringCostData stops a fee that rises with salary, a fee of 0
+// or a level with a single point, and each of those quietly distorts h(S,ℓ).
+// lintHiringData reports them so the dialog and charts can warn about them.
+
+import {
+  HiringCostData,
+  HiringCostFormula,
+  HiringCostPoint,
+  MIN_HIRING_FEE,
+  interpolateHiringCost,
+} from "@/lib/cost-model"
+import { SalaryRange } from "@/lib/roles"
+
+export type MarketDataIssueKind =
+  | 'below-floor'
+  | 'non-monotone'
+  | 'outlier'
+  | 'negative-extrapolation'
+  | 'too-few-points'
+
+export interface MarketDataIssue {
+  kind: MarketDataIssueKind
+  level: number
+  salary: number | null // null for issues about the whole level
+  message: string
+}
+
+// Fewer points than this cannot show the shape of the fee curve
+export const MIN_POINTS_PER_LEVEL = 3
+
+// Modified z-score above which a point counts as an outlier
+const OUTLIER_THRESHOLD = 3.5
+
+function formatMoney(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString()}`
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function levelPoints(salaryData: HiringCostData[number]): HiringCostPoint[] {
+  return Object.entries<number | null>(salaryData)
+    .filter((entry): entry is [string, number] => entry[1] !== null)
+    .map(([salary, cost]) => ({ salary: Number(salary), cost }))
+    .sort((a, b) => a.salary - b.salary)
+}
+
+// Each interior point against the line through its two neighbours, scored
+// with the median absolute deviation of those residuals
+function findOutliers(level: number, points: HiringCostPoint[]): MarketDataIssue[] {
+  if (points.length < 4) return []
+
+  const residuals = points.slice(1, -1).map((p, i) => {
+    const expected = interpolateHiringCost(p.salary, [points[i], points[i + 2]]) ?? p.cost
+    return { point: p, expected, residual: p.cost - expected }
+  })
+
+  const center = median(residuals.map(r => r.residual))
+  const deviations = residuals.map(r => Math.abs(r.residual - center))
+  // Falls back to the mean deviation when most points sit exactly on the line
+  const scale = 1.4826 * median(deviations) || 1.2533 * deviations.reduce((sum, d) => sum + d, 0) / deviations.length
+  if (scale === 0) return []
+
+  return residuals
+    .filter(r => Math.abs(r.residual - center) / scale > OUTLIER_THRESHOLD)
+    .map(r => ({
+      kind: 'outlier',
+      level,
+      salary: r.point.salary,
+      message: `${formatMoney(r.point.cost)} is far from the ${formatMoney(r.expected)} its neighbours suggest`,
+    }))
+}
+
+export function lintLevel(level: number, salaryData: HiringCostData[number], formula: HiringCostFormula, range: SalaryRange): MarketDataIssue[] {
+  const issues: MarketDataIssue[] = []
+  const points = levelPoints(salaryData)
+
+  if (points.length < MIN_POINTS_PER_LEVEL) {
+    issues.push({
+      kind: 'too-few-points',
+      level,
+      salary: null,
+      message: points.length === 0
+        ? `No data: every salary falls back to the ${formatMoney(MIN_HIRING_FEE)} minimum`
+        : points.length === 1
+          ? 'Only 1 point: the fee is the same at every salary'
+          : `Only ${points.length} points: a single straight line is extended in both directions`,
+    })
+  }
+
+  for (const p of points) {
+    if (p.cost < MIN_HIRING_FEE) {
+      issues.push({
+        kind: 'below-floor',
+        level,
+        salary: p.salary,
+        message: `${formatMoney(p.cost)} is below the ${formatMoney(MIN_HIRING_FEE)} market minimum`,
+      })
+    }
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].cost > points[i - 1].cost) {
+      issues.push({
+        kind: 'non-monotone',
+        level,
+        salary: points[i].salary,
+        message: `Fee rises from ${formatMoney(points[i - 1].cost)} at ${formatMoney(points[i - 1].salary)}; fees should fall as salary grows`,
+      })
+    }
+  }
+
+  issues.push(...findOutliers(level, points))
+
+  // Only plain interpolation extrapolates linearly; fitted models stay above the floor
+  if (points.length >= 2 && !formula.parameters[level]?.fit) {
+    for (const salary of [range.min, range.max]) {
+      const extrapolated = interpolateHiringCost(salary, points)
+      if (extrapolated !== null && extrapolated < 0) {
+        issues.push({
+          kind: 'negative-extrapolation',
+          level,
+          salary: null,
+          message: `Extrapolation reaches ${formatMoney(extrapolated)} at ${formatMoney(salary)} and is clamped to ${formatMoney(MIN_HIRING_FEE)}`,
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+// Issues for every level that has entries, in level order
+export function lintHiringData(
+  data: HiringCostData,
+  formula: HiringCostFormula,
+  rangeOf: (level: number) => SalaryRange,
+): MarketDataIssue[] {
+  return Object.keys(data)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap(level => lintLevel(level, data[level], formula, rangeOf(level)))
+}
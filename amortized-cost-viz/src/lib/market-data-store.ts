@@ -0,0 +1,41 @@
+// App-wide market data store.
+//
+// Every route reads the same role-keyed MarketData from here, persisted to
+// localStorage and kept in sync across tabs (see persistent-store.ts).
+
+import { HiringCostData } from "@/lib/cost-model"
+import { createPersistentStore } from "@/lib/persistent-store"
+import {
+  INITIAL_MARKET_DATA,
+  MarketData,
+  isMarketData,
+  levelDataToMarketData,
+  withRoleDefaults,
+} from "@/lib/roles"
+
+export const MARKET_DATA_STORAGE_KEY = "bb-staff:market-data"
+export const MARKET_DATA_SCHEMA_VERSION = 5
+
+const store = createPersistentStore<MarketData>({
+  key: MARKET_DATA_STORAGE_KEY,
+  version: MARKET_DATA_SCHEMA_VERSION,
+  initial: INITIAL_MARKET_DATA,
+  migrations: {
+    0: (data) => data,
+    // Level-only HiringCostData moves into the default role
+    1: (data) => levelDataToMarketData(data as HiringCostData),
+    // Roles gain per-level fee models, interpolated by default
+    2: (data) => withRoleDefaults(data as MarketData),
+    // Observation log and its aggregation settings, empty by default
+    3: (data) => withRoleDefaults(data as MarketData),
+    // Fee points gain an optional uncertainty, none by default
+    4: (data) => withRoleDefaults(data as MarketData),
+  },
+  isValid: isMarketData,
+})
+
+export const getMarketData = store.get
+export const getServerMarketData = store.getServer
+export const setMarketData = store.set
+export const resetMarketData = store.reset
+export const subscribeMarketData = store.subscribe
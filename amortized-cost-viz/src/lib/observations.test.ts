@@ -0,0 +1,82 @@
+// Observation log aggregation: salaries bucket together, and stale
+// sightings count for less in both the median and the mean.
+
+import { describe, expect, it } from "vitest"
+import {
+  MarketObservation,
+  ObservationSettings,
+  bucketObservations,
+  bucketSalary,
+  bucketsToHiringData,
+} from "@/lib/observations"
+import { DEFAULT_SEASON_CALENDAR } from "@/lib/season-calendar"
+
+// Four seasons of 14 weeks: a half-life of 14 weighs season 1 at 1/16 of season 5
+const MEDIAN: ObservationSettings = { aggregate: "median", halfLifeWeeks: 14, bucketSize: 500 }
+const MEAN: ObservationSettings = { ...MEDIAN, aggregate: "weighted-mean" }
+
+let nextId = 0
+function observation(salary: number, fee: number, season: number, level: number = 3): MarketObservation {
+  return { id: `obs-${nextId++}`, level, salary, fee, season, week: 1, note: "" }
+}
+
+function aggregate(observations: MarketObservation[], settings: ObservationSettings): number {
+  const [bucket] = bucketObservations(observations, settings, DEFAULT_SEASON_CALENDAR)
+  return bucket.fee
+}
+
+describe("bucketSalary", () => {
+  it("rounds to the nearest multiple of the bucket size", () => {
+    expect(bucketSalary(7240, 500)).toBe(7000)
+    expect(bucketSalary(7250, 500)).toBe(7500)
+    expect(bucketSalary(7240, 0)).toBe(7240)
+  })
+})
+
+describe("bucketObservations", () => {
+  it("groups by level and salary bucket, sorted by level then salary", () => {
+    const buckets = bucketObservations(
+      [
+        observation(8100, 2000, 5, 4),
+        observation(7900, 3000, 5),
+        observation(7100, 12000, 5),
+        observation(6900, 10000, 4),
+      ],
+      MEDIAN,
+      DEFAULT_SEASON_CALENDAR,
+    )
+
+    expect(buckets.map(b => [b.level, b.salary, b.count])).toEqual([[3, 7000, 2], [3, 8000, 1], [4, 8000, 1]])
+    expect(buckets[0].newest).toEqual({ season: 5, week: 1 })
+    expect(bucketObservations([], MEDIAN, DEFAULT_SEASON_CALENDAR)).toEqual([])
+  })
+
+  it("keeps a stale outlier out of the median and mostly out of the mean", () => {
+    const observations = [observation(7000, 20000, 5), observation(7000, 22000, 5), observation(7000, 90000, 1)]
+    expect(aggregate(observations, MEDIAN)).toBe(22000)
+    expect(aggregate(observations, MEAN)).toBeCloseTo((20000 + 22000 + 90000 / 16) / (2 + 1 / 16), 6)
+    expect(aggregate(observations, { ...MEAN, halfLifeWeeks: null })).toBe(44000)
+  })
+
+  it("lets one recent sighting outweigh several stale ones", () => {
+    const observations = [observation(7000, 1000, 1), observation(7000, 2000, 1), observation(7000, 30000, 5)]
+    expect(aggregate(observations, MEDIAN)).toBe(30000)
+    expect(aggregate(observations, { ...MEDIAN, halfLifeWeeks: null })).toBe(2000)
+  })
+
+  it("averages equally without a half-life", () => {
+    const observations = [observation(7000, 1000, 1), observation(7000, 2000, 1), observation(7000, 30000, 5)]
+    expect(aggregate(observations, { ...MEAN, halfLifeWeeks: null })).toBe(11000)
+  })
+})
+
+describe("bucketsToHiringData", () => {
+  it("rounds each bucket's fee into the level's data", () => {
+    const buckets = bucketObservations(
+      [observation(7000, 10000, 5), observation(7000, 10001, 5), observation(8000, 1000, 5), observation(9000, 500, 5, 4)],
+      MEAN,
+      DEFAULT_SEASON_CALENDAR,
+    )
+    expect(bucketsToHiringData(buckets)).toEqual({ 3: { 7000: 10001, 8000: 1000 }, 4: { 9000: 500 } })
+  })
+})
@@ -0,0 +1,114 @@
+// Dated market observation log.
+//
+// Each sighting on the staff market is kept as its own entry instead of
+// overwriting the single fee per (level, salary). Observations are grouped
+// into salary buckets and aggregated (recency-weighted median or mean) into
+// the HiringCostData points that h(S,ℓ) is built from.
+
+import { HiringCostData } from "@/lib/cost-model"
+import { SeasonCalendar, SeasonWeek, toAbsoluteWeek } from "@/lib/season-calendar"
+
+export interface MarketObservation {
+  id: string
+  level: number
+  salary: number
+  fee: number
+  season: number
+  week: number
+  note: string
+}
+
+export type ObservationAggregate = 'median' | 'weighted-mean'
+
+export interface ObservationSettings {
+  aggregate: ObservationAggregate
+  halfLifeWeeks: number | null // An observation this old counts half; null = all count equally
+  bucketSize: number // Salaries are rounded to the nearest multiple
+}
+
+export interface ObservationBucket {
+  level: number
+  salary: number
+  count: number
+  fee: number
+  newest: SeasonWeek // Most recent observation in the bucket
+}
+
+export const DEFAULT_OBSERVATION_SETTINGS: ObservationSettings = {
+  aggregate: 'median',
+  halfLifeWeeks: 28,
+  bucketSize: 500,
+}
+
+export function createObservation(fields: Omit<MarketObservation, 'id'>): MarketObservation {
+  return {
+    id: `obs-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    ...fields,
+  }
+}
+
+export function bucketSalary(salary: number, bucketSize: number): number {
+  return bucketSize > 0 ? Math.round(salary / bucketSize) * bucketSize : salary
+}
+
+// Smallest fee whose cumulative weight reaches half the total
+function weightedMedian(values: { fee: number; weight: number }[]): number {
+  const sorted = [...values].sort((a, b) => a.fee - b.fee)
+  const half = sorted.reduce((sum, v) => sum + v.weight, 0) / 2
+  let cumulative = 0
+  for (const value of sorted) {
+    cumulative += value.weight
+    if (cumulative >= half) return value.fee
+  }
+  return sorted[sorted.length - 1].fee
+}
+
+function weightedMean(values: { fee: number; weight: number }[]): number {
+  const total = values.reduce((sum, v) => sum + v.weight, 0)
+  return values.reduce((sum, v) => sum + v.fee * v.weight, 0) / total
+}
+
+// Observations grouped by (level, salary bucket), sorted by level then salary.
+// Recency is measured from the newest observation, which leaves the relative
+// weights, and so the aggregates, the same as measuring from today.
+export function bucketObservations(
+  observations: MarketObservation[],
+  settings: ObservationSettings,
+  calendar: SeasonCalendar,
+): ObservationBucket[] {
+  if (observations.length === 0) return []
+
+  const weekOf = (o: MarketObservation) => toAbsoluteWeek(calendar, { season: o.season, week: o.week })
+  const latest = Math.max(...observations.map(weekOf))
+  const weight = (o: MarketObservation) => settings.halfLifeWeeks && settings.halfLifeWeeks > 0
+    ? Math.pow(0.5, (latest - weekOf(o)) / settings.halfLifeWeeks)
+    : 1
+
+  const groups = new Map<string, MarketObservation[]>()
+  for (const observation of observations) {
+    const key = `${observation.level}:${bucketSalary(observation.salary, settings.bucketSize)}`
+    groups.set(key, [...(groups.get(key) ?? []), observation])
+  }
+
+  return [...groups.values()]
+    .map(group => {
+      const values = group.map(o => ({ fee: o.fee, weight: weight(o) }))
+      const newest = group.reduce((a, b) => (weekOf(b) > weekOf(a) ? b : a))
+      return {
+        level: group[0].level,
+        salary: bucketSalary(group[0].salary, settings.bucketSize),
+        count: group.length,
+        fee: settings.aggregate === 'median' ? weightedMedian(values) : weightedMean(values),
+        newest: { season: newest.season, week: newest.week },
+      }
+    })
+    .sort((a, b) => a.level - b.level || a.salary - b.salary)
+}
+
+export function bucketsToHiringData(buckets: ObservationBucket[]): HiringCostData {
+  const data: HiringCostData = {}
+  for (const bucket of buckets) {
+    data[bucket.level] = { ...data[bucket.level], [bucket.salary]: Math.round(bucket.fee) }
+  }
+  return data
+}
@@ -0,0 +1,15 @@
+// Colors for charts with any number of series.
+//
+// The theme's five chart colors come first; later series step around the
+// hue wheel by the golden angle, so no two series share a color however
+// many there are.
+
+const THEME_COLORS = ["--chart-1", "--chart-2", "--chart-3", "--chart-4", "--chart-5"]
+
+const GOLDEN_ANGLE = 137.508
+
+export function seriesColor(index: number): string {
+  if (index < THEME_COLORS.length) return `var(${THEME_COLORS[index]})`
+  const hue = ((index - THEME_COLORS.length) * GOLDEN_ANGLE + 20) % 360
+  return `hsl(${hue.toFixed(0)} 65% 50%)`
+}
@@ -0,0 +1,126 @@
+// Small external store persisted to localStorage.
+//
+// Values are saved as { version, data } so older saves can be migrated
+// forward, and the browser's `storage` event keeps other open tabs in sync.
+// Components subscribe through useSyncExternalStore.
+
+export interface PersistentStoreOptions<T> {
+  key: string
+  version: number
+  initial: T
+  // migrations[v] upgrades the stored data from version v to v + 1.
+  // Version 0 is a bare value saved without the envelope.
+  migrations: { [fromVersion: number]: (data: unknown) => unknown }
+  // Rejects data that does not have the expected shape after migration
+  isValid: (data: unknown) => boolean
+}
+
+export interface PersistentStore<T> {
+  get: () => T
+  getServer: () => T
+  set: (update: T | ((prev: T) => T)) => void
+  reset: () => void
+  subscribe: (listener: () => void) => () => void
+}
+
+interface StoredValue {
+  version: number
+  data: unknown
+}
+
+function hasStorage(): boolean {
+  return typeof window !== "undefined" && !!window.localStorage
+}
+
+export function createPersistentStore<T>(options: PersistentStoreOptions<T>): PersistentStore<T> {
+  const { key, version: currentVersion, initial, migrations, isValid } = options
+
+  let current: T | null = null
+  const listeners = new Set<() => void>()
+
+  function migrate(stored: StoredValue): T | null {
+    let { version, data } = stored
+    if (version > currentVersion) return null
+
+    while (version < currentVersion) {
+      const step = migrations[version]
+      if (!step) return null
+      data = step(data)
+      version++
+    }
+
+    return isValid(data) ? (data as T) : null
+  }
+
+  function parse(raw: string | null): T | null {
+    if (!raw) return null
+    try {
+      const parsed = JSON.parse(raw)
+      const stored: StoredValue =
+        parsed && typeof parsed.version === "number" && "data" in parsed
+          ? parsed
+          : { version: 0, data: parsed }
+      return migrate(stored)
+    } catch {
+      return null
+    }
+  }
+
+  function load(): T {
+    if (!hasStorage()) return initial
+    return parse(window.localStorage.getItem(key)) ?? initial
+  }
+
+  function save(data: T) {
+    if (!hasStorage()) return
+    const stored: StoredValue = { version: currentVersion, data }
+    try {
+      window.localStorage.setItem(key, JSON.stringify(stored))
+    } catch {
+      // Quota exceeded or storage disabled: keep the in-memory copy only
+    }
+  }
+
+  function notify() {
+    listeners.forEach(listener => listener())
+  }
+
+  function handleStorage(event: StorageEvent) {
+    if (event.key !== key) return
+    current = parse(event.newValue) ?? initial
+    notify()
+  }
+
+  function get(): T {
+    if (current === null) current = load()
+    return current
+  }
+
+  function set(update: T | ((prev: T) => T)) {
+    current = typeof update === "function" ? (update as (prev: T) => T)(get()) : update
+    save(current)
+    notify()
+  }
+
+  function subscribe(listener: () => void): () => void {
+    if (listeners.size === 0 && typeof window !== "undefined") {
+      window.addEventListener("storage", handleStorage)
+    }
+    listeners.add(listener)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0 && typeof window !== "undefined") {
+        window.removeEventListener("storage", handleStorage)
+      }
+    }
+  }
+
+  return {
+    get,
+    getServer: () => initial,
+    set,
+    reset: () => set(initial),
+    subscribe,
+  }
+}
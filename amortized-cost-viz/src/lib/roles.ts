@@ -0,0 +1,157 @@
+// Staff roles and the role-keyed market data.
+//
+// Market fees differ by role, so every role carries its own HiringCostData
+// and the fee model fitted to it per level. A role may also override the
+// game's growth rate g(ℓ) and the salary range charted for a level. Data
+// saved before roles existed lives in the default role.
+//
+// Alongside the entered points, a role keeps a log of dated market
+// observations. Their aggregated salary buckets take precedence over entered
+// points at the same salary. Any fee point may carry an uncertainty.
+
+import { DEFAULT_GROWTH_MODEL, GrowthModel, HiringCostData, INITIAL_HIRING_DATA } from "@/lib/cost-model"
+import { HiringFeeModel } from "@/lib/fee-models"
+import { DEFAULT_LEVEL_REGISTRY, LevelRegistry, levelDefinition } from "@/lib/levels"
+import {
+  DEFAULT_OBSERVATION_SETTINGS,
+  MarketObservation,
+  ObservationBucket,
+  ObservationSettings,
+  bucketObservations,
+  bucketsToHiringData,
+} from "@/lib/observations"
+import { DEFAULT_SEASON_CALENDAR, SeasonCalendar } from "@/lib/season-calendar"
+import { FeeUncertaintyData } from "@/lib/uncertainty"
+
+export interface SalaryRange {
+  min: number
+  max: number
+}
+
+export interface StaffRole {
+  id: string
+  name: string
+  growthRates: { [level: number]: number } // Overrides of g(ℓ), as fractions
+  salaryRanges: { [level: number]: SalaryRange } // Overrides of the level registry's range
+  feeModels: { [level: number]: HiringFeeModel } // Levels without an entry are interpolated
+}
+
+export interface MarketData {
+  roles: StaffRole[]
+  hiringData: { [roleId: string]: HiringCostData }
+  observations: { [roleId: string]: MarketObservation[] }
+  observationSettings: ObservationSettings
+  feeUncertainty: { [roleId: string]: FeeUncertaintyData }
+}
+
+export const DEFAULT_ROLE_ID = "default"
+
+export const DEFAULT_ROLE: StaffRole = {
+  id: DEFAULT_ROLE_ID,
+  name: "All Staff",
+  growthRates: {},
+  salaryRanges: {},
+  feeModels: {},
+}
+
+export const INITIAL_MARKET_DATA: MarketData = {
+  roles: [DEFAULT_ROLE],
+  hiringData: { [DEFAULT_ROLE_ID]: INITIAL_HIRING_DATA },
+  observations: {},
+  observationSettings: DEFAULT_OBSERVATION_SETTINGS,
+  feeUncertainty: {},
+}
+
+// Unknown ids fall back to the first role, so stale links still show a chart
+export function findRole(data: MarketData, roleId: string): StaffRole {
+  return data.roles.find(role => role.id === roleId) ?? data.roles[0] ?? DEFAULT_ROLE
+}
+
+export function roleObservationBuckets(
+  data: MarketData,
+  roleId: string,
+  calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR,
+): ObservationBucket[] {
+  const observations = data.observations[findRole(data, roleId).id] ?? []
+  return bucketObservations(observations, data.observationSettings, calendar)
+}
+
+// The points h(S,ℓ) is built from: entered data overlaid with observation buckets
+export function roleHiringData(
+  data: MarketData,
+  roleId: string,
+  calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR,
+): HiringCostData {
+  const entered = data.hiringData[findRole(data, roleId).id] ?? {}
+  const observed = bucketsToHiringData(roleObservationBuckets(data, roleId, calendar))
+
+  const merged: HiringCostData = { ...entered }
+  for (const level of Object.keys(observed).map(Number)) {
+    merged[level] = { ...entered[level], ...observed[level] }
+  }
+  return merged
+}
+
+// The app-wide growth model with the role's rate overrides applied
+export function roleGrowthModel(role: StaffRole, base: GrowthModel = DEFAULT_GROWTH_MODEL): GrowthModel {
+  return { ...base, rates: { ...base.rates, ...role.growthRates } }
+}
+
+export function roleSalaryRange(
+  role: StaffRole,
+  level: number,
+  registry: LevelRegistry = DEFAULT_LEVEL_REGISTRY,
+): SalaryRange {
+  return role.salaryRanges[level] ?? levelDefinition(level, registry).salaryRange
+}
+
+// Salaries swept by the charts, every `step` across the range
+export function salarySweep(range: SalaryRange, step: number = 200): number[] {
+  const count = Math.max(0, Math.floor((range.max - range.min) / step))
+  return Array.from({ length: count + 1 }, (_, i) => range.min + i * step)
+}
+
+// Axis ticks and dialog rows, every `step`; by default every $1K on narrow ranges and $2K otherwise
+export function salaryTicks(range: SalaryRange, step: number = range.max - range.min > 5000 ? 2000 : 1000): number[] {
+  return salarySweep(range, step)
+}
+
+export function createRole(name: string, roles: StaffRole[]): StaffRole {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "role"
+  let id = base
+  for (let n = 2; roles.some(role => role.id === id); n++) id = `${base}-${n}`
+
+  return { id, name: name.trim() || "New Role", growthRates: {}, salaryRanges: {}, feeModels: {} }
+}
+
+// Level-only data saved or shared before roles existed
+export function levelDataToMarketData(data: HiringCostData): MarketData {
+  return {
+    roles: [DEFAULT_ROLE],
+    hiringData: { [DEFAULT_ROLE_ID]: data },
+    observations: {},
+    observationSettings: DEFAULT_OBSERVATION_SETTINGS,
+    feeUncertainty: {},
+  }
+}
+
+// Fills in fields added after the data was saved or shared
+export function withRoleDefaults(data: MarketData): MarketData {
+  return {
+    ...data,
+    roles: data.roles.map(role => ({ ...role, feeModels: role.feeModels ?? {} })),
+    observations: data.observations ?? {},
+    observationSettings: { ...DEFAULT_OBSERVATION_SETTINGS, ...data.observationSettings },
+    feeUncertainty: data.feeUncertainty ?? {},
+  }
+}
+
+export function isMarketData(value: unknown): value is MarketData {
+  const data = value as MarketData
+  return !!data
+    && Array.isArray(data.roles)
+    && data.roles.length > 0
+    && data.roles.every(role => !!role && typeof role.id === "string" && typeof role.name === "string")
+    && !!data.hiringData
+    && typeof data.hiringData === "object"
+}
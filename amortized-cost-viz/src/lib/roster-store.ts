@@ -0,0 +1,33 @@
+// App-wide staff roster store, persisted like the market data.
+
+import { createPersistentStore } from "@/lib/persistent-store"
+import { INITIAL_ROSTER, Roster } from "@/lib/roster"
+import { DEFAULT_ROLE_ID } from "@/lib/roles"
+
+export const ROSTER_STORAGE_KEY = "bb-staff:roster"
+export const ROSTER_SCHEMA_VERSION = 2
+
+const store = createPersistentStore<Roster>({
+  key: ROSTER_STORAGE_KEY,
+  version: ROSTER_SCHEMA_VERSION,
+  initial: INITIAL_ROSTER,
+  migrations: {
+    // Staff saved before roles existed belong to the default role
+    1: (data) => {
+      const roster = data as Roster
+      return {
+        ...roster,
+        members: roster.members.map(member => ({ ...member, roleId: member.roleId ?? DEFAULT_ROLE_ID })),
+      }
+    },
+  },
+  isValid: (data) => {
+    const roster = data as Roster
+    return !!roster && typeof roster.currentWeek === "number" && Array.isArray(roster.members)
+  },
+})
+
+export const getRoster = store.get
+export const getServerRoster = store.getServer
+export const setRoster = store.set
+export const subscribeRoster = store.subscribe
@@ -0,0 +1,115 @@
+// Staff roster: the whole team's staff portfolio.
+//
+// Weeks are counted on one running game-week counter: each staff member
+// records the week they were hired and the roster records the current week.
+
+import {
+  GrowthModel,
+  HiringCostFormula,
+  amortizedCostForFee,
+  decideKeepOrReplace,
+  hiringCost,
+  weeklySalary,
+} from "@/lib/cost-model"
+import { DEFAULT_ROLE_ID } from "@/lib/roles"
+
+export interface StaffMember {
+  id: string
+  name: string
+  roleId: string
+  level: number
+  startingSalary: number
+  hireWeek: number
+  hiringFee: number | null // Fee actually paid; null falls back to the market h(S,ℓ)
+}
+
+export interface Roster {
+  currentWeek: number
+  members: StaffMember[]
+}
+
+export interface StaffMemberSummary {
+  member: StaffMember
+  weeksEmployed: number
+  currentSalary: number
+  hiringFee: number
+  amortizedCostToDate: number | null // null until a full week has passed
+  replaceAtWeek: number | null // null when the replacement hire has no optimum
+}
+
+export interface SpendProjectionPoint {
+  week: number
+  [memberId: string]: number
+}
+
+export const INITIAL_ROSTER: Roster = {
+  currentWeek: 0,
+  members: [],
+}
+
+export function createStaffMember(currentWeek: number, index: number): StaffMember {
+  return {
+    id: `staff-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: `Staff ${index + 1}`,
+    roleId: DEFAULT_ROLE_ID,
+    level: 3,
+    startingSalary: 6500,
+    hireWeek: currentWeek,
+    hiringFee: null,
+  }
+}
+
+// hiringFormula and growth are those of the member's role
+export function summarizeStaffMember(
+  member: StaffMember,
+  currentWeek: number,
+  hiringFormula: HiringCostFormula,
+  growth: GrowthModel,
+): StaffMemberSummary {
+  const weeksEmployed = Math.max(0, currentWeek - member.hireWeek)
+  const currentSalary = weeklySalary(member.startingSalary, weeksEmployed, member.level, growth)
+  const hiringFee = member.hiringFee ?? hiringCost(member.startingSalary, member.level, hiringFormula)
+
+  // Replacement is assumed to be hired at the same starting salary
+  const decision = decideKeepOrReplace(member.startingSalary, weeksEmployed, member.level, member.startingSalary, hiringFormula, growth)
+
+  return {
+    member,
+    weeksEmployed,
+    currentSalary,
+    hiringFee,
+    amortizedCostToDate: weeksEmployed > 0
+      ? amortizedCostForFee(hiringFee, member.startingSalary, weeksEmployed, member.level, growth)
+      : null,
+    replaceAtWeek: decision ? currentWeek + decision.replaceInWeeks : null,
+  }
+}
+
+export function totalWeeklySpend(summaries: StaffMemberSummary[]): number {
+  return summaries.reduce((total, summary) => total + summary.currentSalary, 0)
+}
+
+// Weekly salary of every staff member over the coming weeks, assuming all are kept.
+// Staff hired in the future only count from their hire week.
+export function projectStaffSpend(
+  roster: Roster,
+  weeks: number,
+  growthOf: (member: StaffMember) => GrowthModel,
+): SpendProjectionPoint[] {
+  const points: SpendProjectionPoint[] = []
+
+  for (let offset = 0; offset <= weeks; offset++) {
+    const week = roster.currentWeek + offset
+    const point: SpendProjectionPoint = { week }
+
+    for (const member of roster.members) {
+      point[member.id] = week >= member.hireWeek
+        ? weeklySalary(member.startingSalary, week - member.hireWeek, member.level, growthOf(member))
+        : 0
+    }
+
+    points.push(point)
+  }
+
+  return points
+}
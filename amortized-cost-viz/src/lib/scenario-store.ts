@@ -0,0 +1,39 @@
+// Saved scenarios, persisted like the roster.
+
+import { GrowthModel } from "@/lib/cost-model"
+import { createPersistentStore } from "@/lib/persistent-store"
+import { isMarketData } from "@/lib/roles"
+import { Scenario } from "@/lib/scenarios"
+
+export const SCENARIOS_STORAGE_KEY = "bb-staff:scenarios"
+export const SCENARIOS_SCHEMA_VERSION = 1
+
+// Looser than cost-model's isGrowthModel on purpose, so scenarios saved before `discountRate` existed still load
+function isSavedGrowthModel(value: unknown): value is GrowthModel {
+  const growth = value as GrowthModel
+  return !!growth && !!growth.rates && typeof growth.rates === "object" && typeof growth.kind === "string"
+}
+
+const store = createPersistentStore<Scenario[]>({
+  key: SCENARIOS_STORAGE_KEY,
+  version: SCENARIOS_SCHEMA_VERSION,
+  initial: [],
+  migrations: {},
+  isValid: (data) => Array.isArray(data) && data.every(scenario => {
+    const s = scenario as Scenario
+    return !!s
+      && typeof s.id === "string"
+      && typeof s.name === "string"
+      && !!s.params
+      && typeof s.params.startingSalary === "number"
+      && typeof s.params.level === "number"
+      && isMarketData(s.marketData)
+      && isSavedGrowthModel(s.growthModel)
+  }),
+})
+
+export const getScenarios = store.get
+export const getServerScenarios = store.getServer
+export const setScenarios = store.set
+export const resetScenarios = store.reset
+export const subscribeScenarios = store.subscribe
@@ -0,0 +1,66 @@
+// Saved scenarios evaluate with the data they were saved with, not the
+// user's current market data or growth model.
+
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_GROWTH_MODEL,
+  GrowthModel,
+  INITIAL_HIRING_DATA,
+  amortizedCostForFee,
+  generateHiringFormula,
+  hiringCost,
+  maintenanceCost,
+  solveOptimalDuration,
+} from "@/lib/cost-model"
+import { INITIAL_MARKET_DATA, MarketData } from "@/lib/roles"
+import { createScenario, evaluateScenario } from "@/lib/scenarios"
+
+const params = { startingSalary: 6500, role: "default", level: 3, maxWeeks: 52 }
+
+describe("createScenario", () => {
+  it("names an unnamed scenario after its level and salary", () => {
+    expect(createScenario("  ", params, INITIAL_MARKET_DATA, DEFAULT_GROWTH_MODEL).name).toBe("Level 3 at $6,500")
+    expect(createScenario(" Winter hire ", params, INITIAL_MARKET_DATA, DEFAULT_GROWTH_MODEL).name).toBe("Winter hire")
+  })
+})
+
+describe("evaluateScenario", () => {
+  it("matches the cost model for the saved data", () => {
+    const result = evaluateScenario(createScenario("", params, INITIAL_MARKET_DATA, DEFAULT_GROWTH_MODEL), 104)
+    const fee = hiringCost(6500, 3, generateHiringFormula(INITIAL_HIRING_DATA))
+
+    expect(result.hiringFee).toBe(fee)
+    expect(result.solution).toEqual(solveOptimalDuration(fee, 6500, 3))
+    expect(result.solution).toMatchObject({ kind: "minimum", week: 21 })
+    expect(result.totalCost).toBeCloseTo(fee + maintenanceCost(6500, 104, 3), 6)
+    expect(result.amortizedCosts).toHaveLength(104)
+    expect(result.amortizedCosts[20]).toBeCloseTo(amortizedCostForFee(fee, 6500, 21, 3), 6)
+  })
+
+  it("uses the saved growth model with the role's overrides", () => {
+    const linear: GrowthModel = { ...DEFAULT_GROWTH_MODEL, kind: "linear" }
+    const marketData: MarketData = {
+      ...INITIAL_MARKET_DATA,
+      roles: INITIAL_MARKET_DATA.roles.map(role => ({ ...role, growthRates: { 3: 0.03 } })),
+    }
+    const result = evaluateScenario(createScenario("", params, marketData, linear), 104)
+    const growth: GrowthModel = { ...linear, rates: { 3: 0.03 } }
+
+    expect(result.solution).toEqual(solveOptimalDuration(result.hiringFee, 6500, 3, growth))
+  })
+
+  it("fills in growth model fields added after the scenario was saved", () => {
+    const saved = createScenario("", params, INITIAL_MARKET_DATA, DEFAULT_GROWTH_MODEL)
+    const { discountRate: _discountRate, ...oldGrowthModel } = DEFAULT_GROWTH_MODEL
+    const result = evaluateScenario({ ...saved, growthModel: oldGrowthModel as GrowthModel }, 104)
+
+    expect(result).toEqual(evaluateScenario(saved, 104))
+  })
+
+  it("finds an optimum past the compared weeks, like the chart's header", () => {
+    const result = evaluateScenario(createScenario("", params, INITIAL_MARKET_DATA, DEFAULT_GROWTH_MODEL), 10)
+    expect(result.solution).toMatchObject({ kind: "minimum", week: 21 })
+    expect(result.amortizedCosts).toHaveLength(10)
+    expect(result.totalCost).toBeCloseTo(result.hiringFee + maintenanceCost(6500, 10, 3), 6)
+  })
+})
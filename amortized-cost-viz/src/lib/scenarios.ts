@@ -0,0 +1,80 @@
+// Named scenarios for the time analysis.
+//
+// A scenario is a saved copy of everything the amortized-cost chart depends
+// on: its params, the market data and the app-wide growth model. Saved
+// scenarios are evaluated against the current season calendar. Their optimum
+// is searched as far as the chart's own; totals and curves cover the weeks
+// of the chart they are compared on, so every row covers the same weeks.
+
+import {
+  DEFAULT_GROWTH_MODEL,
+  GrowthModel,
+  OptimumSolution,
+  amortizedCostForFee,
+  generateHiringFormula,
+  hiringCost,
+  maintenanceCost,
+  solveOptimalDuration,
+} from "@/lib/cost-model"
+import { MarketData, findRole, roleGrowthModel, roleHiringData, withRoleDefaults } from "@/lib/roles"
+import { DEFAULT_SEASON_CALENDAR, SeasonCalendar } from "@/lib/season-calendar"
+import { AmortizedCostParams } from "@/lib/search-params"
+
+export type ScenarioParams = Pick<AmortizedCostParams, 'startingSalary' | 'role' | 'level' | 'maxWeeks'>
+
+export interface Scenario {
+  id: string
+  name: string
+  params: ScenarioParams
+  marketData: MarketData
+  growthModel: GrowthModel // Before the role's overrides
+  savedAt: string // ISO timestamp
+}
+
+export interface ScenarioResult {
+  hiringFee: number
+  solution: OptimumSolution // Searched up to OPTIMIZATION_HORIZON, like the chart's optimum
+  totalCost: number // Hiring fee plus salary over the charted weeks
+  amortizedCosts: number[] // A(S,T) for T = 1..weeks
+}
+
+// Saved scenarios drawn on the chart at once
+export const MAX_OVERLAID_SCENARIOS = 4
+
+export function createScenario(
+  name: string,
+  params: ScenarioParams,
+  marketData: MarketData,
+  growthModel: GrowthModel,
+): Scenario {
+  const { startingSalary, role, level, maxWeeks } = params
+  return {
+    id: `scenario-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim() || `Level ${level} at $${startingSalary.toLocaleString()}`,
+    params: { startingSalary, role, level, maxWeeks },
+    marketData,
+    growthModel,
+    savedAt: new Date().toISOString(),
+  }
+}
+
+export function evaluateScenario(
+  scenario: Scenario,
+  weeks: number,
+  calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR,
+): ScenarioResult {
+  const { startingSalary, level } = scenario.params
+  const marketData = withRoleDefaults(scenario.marketData)
+  const role = findRole(marketData, scenario.params.role)
+  // Fields added to the growth model since the scenario was saved take their defaults
+  const growth = roleGrowthModel(role, { ...DEFAULT_GROWTH_MODEL, ...scenario.growthModel })
+  const formula = generateHiringFormula(roleHiringData(marketData, role.id, calendar), role.feeModels)
+  const hiringFee = hiringCost(startingSalary, level, formula)
+
+  return {
+    hiringFee,
+    solution: solveOptimalDuration(hiringFee, startingSalary, level, growth),
+    totalCost: hiringFee + maintenanceCost(startingSalary, weeks, level, growth),
+    amortizedCosts: Array.from({ length: weeks }, (_, i) => amortizedCostForFee(hiringFee, startingSalary, i + 1, level, growth)),
+  }
+}
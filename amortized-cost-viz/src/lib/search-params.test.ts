@@ -0,0 +1,55 @@
+// Share links: the market data and settings survive the round trip, and
+// links made before the settings were included still open.
+
+import LZString from "lz-string"
+import { describe, expect, it } from "vitest"
+import { DEFAULT_GROWTH_MODEL, GrowthModel, INITIAL_HIRING_DATA } from "@/lib/cost-model"
+import { DEFAULT_LEVEL_REGISTRY, LevelRegistry } from "@/lib/levels"
+import { INITIAL_MARKET_DATA } from "@/lib/roles"
+import { SeasonCalendar } from "@/lib/season-calendar"
+import { SharedSettings, decodeMarketData, encodeMarketData } from "@/lib/search-params"
+
+// How links were encoded before the payload was versioned
+function legacyEncode(payload: unknown): string {
+  return LZString.compressToBase64(JSON.stringify(payload)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+describe("share links", () => {
+  const growthModel: GrowthModel = { rates: { 3: 0.02 }, kind: "linear", maxSalary: 15000, discountRate: 0.001 }
+  const calendar: SeasonCalendar = { seasonLength: 12, currentSeason: 4, currentWeek: 7 }
+  const levelRegistry: LevelRegistry = {
+    ...DEFAULT_LEVEL_REGISTRY,
+    3: { ...DEFAULT_LEVEL_REGISTRY[3], name: "Junior", weeklyValue: 800 },
+  }
+  const settings: SharedSettings = {
+    marketData: INITIAL_MARKET_DATA,
+    growthModel,
+    calendar,
+    levelRegistry,
+    targetCosts: { 3: [900, 1200] },
+  }
+
+  it("round-trips the market data and settings", () => {
+    const shared = decodeMarketData(encodeMarketData(settings))
+    expect(shared?.growthModel).toEqual(growthModel)
+    expect(shared?.calendar).toEqual(calendar)
+    expect(shared?.levelRegistry).toEqual(levelRegistry)
+    expect(shared?.targetCosts).toEqual({ 3: [900, 1200] })
+    expect(shared?.marketData.hiringData).toEqual(INITIAL_MARKET_DATA.hiringData)
+  })
+
+  it("opens links made before the settings were included", () => {
+    const withGrowth = decodeMarketData(legacyEncode({ ...INITIAL_MARKET_DATA, growthModel }))
+    expect(withGrowth).toMatchObject({ growthModel, calendar: null, levelRegistry: null, targetCosts: null })
+    expect(withGrowth?.marketData).not.toHaveProperty("growthModel")
+    expect(decodeMarketData(legacyEncode(INITIAL_MARKET_DATA))).toMatchObject({ growthModel: null, calendar: null })
+    expect(decodeMarketData(legacyEncode(INITIAL_HIRING_DATA))?.marketData.hiringData.default).toEqual(INITIAL_HIRING_DATA)
+  })
+
+  it("rejects a malformed growth model", () => {
+    const payload = { ...INITIAL_MARKET_DATA, growthModel: { ...DEFAULT_GROWTH_MODEL, kind: "exponential" } }
+    expect(decodeMarketData(legacyEncode(payload))).toBeNull()
+    expect(decodeMarketData(encodeMarketData({ ...settings, calendar: { ...calendar, seasonLength: 0 } }))).toBeNull()
+    expect(decodeMarketData("not-a-link")).toBeNull()
+  })
+})
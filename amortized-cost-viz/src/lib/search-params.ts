@@ -0,0 +1,265 @@
+// Route search params: chart parameters and an optional shared dataset.
+//
+// Every route validates its own search object so a link like
+// /?startingSalary=9500&level=4&maxWeeks=60 reproduces the same chart.
+// `data` carries the market data and every setting a chart reads besides
+// its params (growth model, season calendar, level registry, target costs),
+// JSON -> lz-string -> base64url.
+
+import LZString from "lz-string"
+import { GrowthModel, HiringCostData, STAFF_LEVELS, isGrowthModel } from "@/lib/cost-model"
+import { LevelRegistry, isLevelRegistry } from "@/lib/levels"
+import { DEFAULT_ROLE_ID, MarketData, isMarketData, levelDataToMarketData, withRoleDefaults } from "@/lib/roles"
+import { SeasonCalendar, isSeasonCalendar } from "@/lib/season-calendar"
+import { TargetCostSettings, isTargetCostSettings } from "@/lib/target-costs"
+
+export interface SharedDataSearch {
+  data?: string
+}
+
+// Everything a chart reads besides its params, as a share link carries it
+export interface SharedSettings {
+  marketData: MarketData
+  growthModel: GrowthModel
+  calendar: SeasonCalendar
+  levelRegistry: LevelRegistry
+  targetCosts: TargetCostSettings
+}
+
+// A decoded link; settings that older links did not carry are null
+export interface SharedData {
+  marketData: MarketData
+  growthModel: GrowthModel | null
+  calendar: SeasonCalendar | null
+  levelRegistry: LevelRegistry | null
+  targetCosts: TargetCostSettings | null
+}
+
+// Typing in a number input replaces the current history entry instead of
+// pushing one per keystroke
+export interface ParamsChangeOptions {
+  replace?: boolean
+}
+
+export interface AmortizedCostParams {
+  startingSalary: number
+  role: string
+  level: number
+  maxWeeks: number
+  hireSeason?: number // Hire date in game time; defaults to the calendar's current week
+  hireWeek?: number
+  compare?: number[] // Other levels overlaid on the chart
+}
+
+export interface SalaryComparisonParams {
+  role: string
+  level: number
+  maxWeeks: number
+  compare?: number[]
+}
+
+export interface MaxHiringFeeParams {
+  role: string
+  level: number
+}
+
+export interface KeepOrReplaceParams {
+  role: string
+  level: number
+  startingSalary: number // Salary when the current staff member was hired
+  weeksEmployed: number
+  currentSalary?: number // Known current salary, overrides startingSalary
+  replacementSalary: number
+}
+
+export interface ValueForMoneyParams {
+  role: string
+}
+
+export interface HeatmapParams {
+  role: string
+  minSalary: number
+  maxSalary: number
+  budget?: number // Weekly budget drawn as a contour
+}
+
+// The curve editor always edits the user's own data, so it takes no `data` param
+export interface MarketDataParams {
+  role: string
+  level: number
+}
+
+export type AmortizedCostSearch = AmortizedCostParams & SharedDataSearch
+export type SalaryComparisonSearch = SalaryComparisonParams & SharedDataSearch
+export type MaxHiringFeeSearch = MaxHiringFeeParams & SharedDataSearch
+export type KeepOrReplaceSearch = KeepOrReplaceParams & SharedDataSearch
+export type ValueForMoneySearch = ValueForMoneyParams & SharedDataSearch
+export type HeatmapSearch = HeatmapParams & SharedDataSearch
+
+// Raw search as it arrives from the URL; every key is optional so plain links need no search
+type RawSearch<T> = { [K in keyof T]?: unknown }
+
+const DEFAULT_LEVEL = 3
+
+function numberParam(value: unknown, fallback: number, min: number, max: number): number {
+  const parsed = typeof value === "number" ? value : Number(value)
+  if (value === undefined || value === "" || !Number.isFinite(parsed)) return fallback
+  return Math.min(max, Math.max(min, parsed))
+}
+
+function levelParam(value: unknown): number {
+  const level = Math.round(numberParam(value, DEFAULT_LEVEL, Math.min(...STAFF_LEVELS), Math.max(...STAFF_LEVELS)))
+  return STAFF_LEVELS.includes(level) ? level : DEFAULT_LEVEL
+}
+
+// A list of levels, from an array or a comma-separated string; undefined when none is valid
+function levelsParam(value: unknown): number[] | undefined {
+  const values = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : []
+  const levels = [...new Set(values.map(Number))].filter(level => STAFF_LEVELS.includes(level)).sort((a, b) => a - b)
+  return levels.length > 0 ? levels : undefined
+}
+
+function roleParam(value: unknown): string {
+  if (value === undefined || value === null || value === "") return DEFAULT_ROLE_ID
+  return String(value)
+}
+
+function dataParam(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  return String(value)
+}
+
+export function validateAmortizedCostSearch(search: RawSearch<AmortizedCostSearch>): AmortizedCostSearch {
+  return {
+    startingSalary: numberParam(search.startingSalary, 8000, 0, 100000),
+    role: roleParam(search.role),
+    level: levelParam(search.level),
+    maxWeeks: Math.round(numberParam(search.maxWeeks, 52, 1, 104)),
+    hireSeason: search.hireSeason === undefined ? undefined : Math.round(numberParam(search.hireSeason, 1, 1, 1000)),
+    hireWeek: search.hireWeek === undefined ? undefined : Math.round(numberParam(search.hireWeek, 1, 1, 52)),
+    compare: levelsParam(search.compare),
+    data: dataParam(search.data),
+  }
+}
+
+export function validateSalaryComparisonSearch(search: RawSearch<SalaryComparisonSearch>): SalaryComparisonSearch {
+  return {
+    role: roleParam(search.role),
+    level: levelParam(search.level),
+    maxWeeks: Math.round(numberParam(search.maxWeeks, 104, 10, 520)), // 2 years max for finding minimum
+    compare: levelsParam(search.compare),
+    data: dataParam(search.data),
+  }
+}
+
+export function validateMaxHiringFeeSearch(search: RawSearch<MaxHiringFeeSearch>): MaxHiringFeeSearch {
+  return {
+    role: roleParam(search.role),
+    level: levelParam(search.level),
+    data: dataParam(search.data),
+  }
+}
+
+export function validateKeepOrReplaceSearch(search: RawSearch<KeepOrReplaceSearch>): KeepOrReplaceSearch {
+  const startingSalary = numberParam(search.startingSalary, 6500, 0, 100000)
+  return {
+    role: roleParam(search.role),
+    level: levelParam(search.level),
+    startingSalary,
+    weeksEmployed: Math.round(numberParam(search.weeksEmployed, 0, 0, 520)),
+    currentSalary: search.currentSalary === undefined ? undefined : numberParam(search.currentSalary, startingSalary, 0, 1000000),
+    replacementSalary: numberParam(search.replacementSalary, startingSalary, 0, 100000),
+    data: dataParam(search.data),
+  }
+}
+
+export function validateValueForMoneySearch(search: RawSearch<ValueForMoneySearch>): ValueForMoneySearch {
+  return {
+    role: roleParam(search.role),
+    data: dataParam(search.data),
+  }
+}
+
+export function validateHeatmapSearch(search: RawSearch<HeatmapSearch>): HeatmapSearch {
+  const minSalary = numberParam(search.minSalary, 4000, 0, 99000)
+  return {
+    role: roleParam(search.role),
+    minSalary,
+    maxSalary: numberParam(search.maxSalary, 20000, minSalary + 1000, 100000),
+    budget: search.budget === undefined ? undefined : numberParam(search.budget, 10000, 0, 1000000),
+    data: dataParam(search.data),
+  }
+}
+
+export function validateMarketDataSearch(search: RawSearch<MarketDataParams>): MarketDataParams {
+  return {
+    role: roleParam(search.role),
+    level: levelParam(search.level),
+  }
+}
+
+// Version of the `data` payload. Version 1 links hold a MarketData with an
+// optional `growthModel` key; older ones hold a bare MarketData or level data.
+const SHARED_DATA_VERSION = 2
+
+export function encodeMarketData(settings: SharedSettings): string {
+  return LZString.compressToBase64(JSON.stringify({ version: SHARED_DATA_VERSION, ...settings }))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+function isHiringCostData(value: unknown): value is HiringCostData {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false
+
+  for (const salaryData of Object.values(value)) {
+    if (!salaryData || typeof salaryData !== "object") return false
+    for (const fee of Object.values(salaryData)) {
+      if (fee !== null && typeof fee !== "number") return false
+    }
+  }
+
+  return true
+}
+
+function decodeSharedMarketData(value: unknown): MarketData | null {
+  if (!isMarketData(value) || !Object.values(value.hiringData).every(isHiringCostData)) return null
+  const { growthModel: _growthModel, ...marketData } = value as MarketData & { growthModel?: unknown }
+  return withRoleDefaults(marketData)
+}
+
+function decodeVersioned(payload: { [key: string]: unknown }): SharedData | null {
+  const marketData = decodeSharedMarketData(payload.marketData)
+  const { growthModel, calendar, levelRegistry, targetCosts } = payload
+  if (!marketData || !isGrowthModel(growthModel) || !isSeasonCalendar(calendar)) return null
+  if (!isLevelRegistry(levelRegistry) || !isTargetCostSettings(targetCosts)) return null
+  return { marketData, growthModel, calendar, levelRegistry, targetCosts }
+}
+
+// Returns null when the param is corrupt or does not hold a dataset.
+// Links shared before roles existed carry level-only data for the default role.
+export function decodeMarketData(encoded: string): SharedData | null {
+  try {
+    const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/")
+    const json = LZString.decompressFromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="))
+    if (!json) return null
+
+    const parsed: unknown = JSON.parse(json)
+    const legacy = { growthModel: null, calendar: null, levelRegistry: null, targetCosts: null }
+    if (!parsed || typeof parsed !== "object") return null
+    if ("version" in parsed) {
+      return parsed.version === SHARED_DATA_VERSION ? decodeVersioned(parsed as { [key: string]: unknown }) : null
+    }
+
+    if (isMarketData(parsed)) {
+      const marketData = decodeSharedMarketData(parsed)
+      const { growthModel } = parsed as MarketData & { growthModel?: unknown }
+      if (!marketData || (growthModel !== undefined && !isGrowthModel(growthModel))) return null
+      return { ...legacy, marketData, growthModel: growthModel ?? null }
+    }
+
+    return isHiringCostData(parsed) ? { ...legacy, marketData: levelDataToMarketData(parsed) } : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,21 @@
+// App-wide season calendar, persisted like the market data.
+
+import { createPersistentStore } from "@/lib/persistent-store"
+import { DEFAULT_SEASON_CALENDAR, SeasonCalendar, isSeasonCalendar } from "@/lib/season-calendar"
+
+export const SEASON_CALENDAR_STORAGE_KEY = "bb-staff:season-calendar"
+export const SEASON_CALENDAR_SCHEMA_VERSION = 1
+
+const store = createPersistentStore<SeasonCalendar>({
+  key: SEASON_CALENDAR_STORAGE_KEY,
+  version: SEASON_CALENDAR_SCHEMA_VERSION,
+  initial: DEFAULT_SEASON_CALENDAR,
+  migrations: {},
+  isValid: isSeasonCalendar,
+})
+
+export const getSeasonCalendar = store.get
+export const getServerSeasonCalendar = store.getServer
+export const setSeasonCalendar = store.set
+export const resetSeasonCalendar = store.reset
+export const subscribeSeasonCalendar = store.subscribe
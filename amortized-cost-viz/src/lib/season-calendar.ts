@@ -0,0 +1,80 @@
+// BuzzerBeater season calendar.
+//
+// Game time is a (season, week) pair with weeks numbered from 1. Durations
+// in the cost model are whole weeks after the hire, so a tenure of T weeks
+// from a hire in S12 W5 runs until addWeeks(calendar, S12 W5, T).
+
+export interface SeasonCalendar {
+  seasonLength: number // Weeks per season
+  currentSeason: number
+  currentWeek: number
+}
+
+export interface SeasonWeek {
+  season: number
+  week: number
+}
+
+export const DEFAULT_SEASON_CALENDAR: SeasonCalendar = {
+  seasonLength: 14,
+  currentSeason: 1,
+  currentWeek: 1,
+}
+
+// Shape check for calendars read from storage or a share link
+export function isSeasonCalendar(value: unknown): value is SeasonCalendar {
+  const calendar = value as SeasonCalendar
+  return !!calendar
+    && Number.isInteger(calendar.seasonLength)
+    && calendar.seasonLength >= 1
+    && typeof calendar.currentSeason === "number"
+    && typeof calendar.currentWeek === "number"
+}
+
+export function currentSeasonWeek(calendar: SeasonCalendar): SeasonWeek {
+  return normalizeSeasonWeek(calendar, { season: calendar.currentSeason, week: calendar.currentWeek })
+}
+
+// Weeks elapsed since S1 W1
+export function toAbsoluteWeek(calendar: SeasonCalendar, date: SeasonWeek): number {
+  return (date.season - 1) * calendar.seasonLength + (date.week - 1)
+}
+
+export function fromAbsoluteWeek(calendar: SeasonCalendar, absoluteWeek: number): SeasonWeek {
+  const week = Math.floor(absoluteWeek)
+  return {
+    season: Math.floor(week / calendar.seasonLength) + 1,
+    week: (((week % calendar.seasonLength) + calendar.seasonLength) % calendar.seasonLength) + 1,
+  }
+}
+
+// Carries weeks past the end of a season into the next one
+export function normalizeSeasonWeek(calendar: SeasonCalendar, date: SeasonWeek): SeasonWeek {
+  return fromAbsoluteWeek(calendar, toAbsoluteWeek(calendar, date))
+}
+
+export function addWeeks(calendar: SeasonCalendar, date: SeasonWeek, weeks: number): SeasonWeek {
+  return fromAbsoluteWeek(calendar, toAbsoluteWeek(calendar, date) + weeks)
+}
+
+// "S12 W5"
+export function formatSeasonWeek(date: SeasonWeek): string {
+  return `S${date.season} W${date.week}`
+}
+
+// "until season 12 week 5" for a tenure of `weeks` starting at `start`
+export function describeUntil(calendar: SeasonCalendar, start: SeasonWeek, weeks: number): string {
+  const end = addWeeks(calendar, start, Math.round(weeks))
+  return `until season ${end.season} week ${end.week}`
+}
+
+// Offsets (weeks after `start`, within 1..maxWeeks) at which a new season begins
+export function seasonBoundaries(calendar: SeasonCalendar, start: SeasonWeek, maxWeeks: number): number[] {
+  const boundaries: number[] = []
+  let offset = calendar.seasonLength - start.week + 1
+  while (offset <= maxWeeks) {
+    if (offset >= 1) boundaries.push(offset)
+    offset += calendar.seasonLength
+  }
+  return boundaries
+}
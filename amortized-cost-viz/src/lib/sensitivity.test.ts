@@ -0,0 +1,64 @@
+// Sensitivity analysis: elasticities agree with what the cost model implies
+// analytically, and inputs are ranked by how far they swing the optimal cost.
+
+import { describe, expect, it } from "vitest"
+import { DEFAULT_GROWTH_MODEL, growthFactor } from "@/lib/cost-model"
+import { SensitivityBase, SensitivityInput, analyzeSensitivity, scaleInput, solveSensitivityBase } from "@/lib/sensitivity"
+
+// Optimum at week 16 for about $9,000/week
+const BASE: SensitivityBase = { hiringFee: 9597.35107421875, salary: 7000, level: 3, growth: DEFAULT_GROWTH_MODEL, horizon: 500 }
+
+function result(input: SensitivityInput, base: SensitivityBase = BASE) {
+  return analyzeSensitivity(base).find(r => r.input === input)!
+}
+
+describe("scaleInput", () => {
+  it("scales one input and leaves the others at the base", () => {
+    expect(scaleInput(BASE, "hiringFee", 1.1)).toEqual({ ...BASE, hiringFee: BASE.hiringFee * 1.1 })
+    expect(scaleInput(BASE, "salary", 0.9)).toEqual({ ...BASE, salary: 6300 })
+    expect(scaleInput(BASE, "growth", 2).growth.rates).toEqual({ 3: growthFactor(3) * 2 })
+  })
+
+  it("keeps the horizon a whole number of weeks, at least one", () => {
+    expect(scaleInput(BASE, "horizon", 1.2).horizon).toBe(600)
+    expect(scaleInput({ ...BASE, horizon: 3 }, "horizon", 0.1).horizon).toBe(1)
+  })
+})
+
+describe("analyzeSensitivity", () => {
+  it("matches the envelope theorem for the hiring fee: ε = h / (T*·A*)", () => {
+    const optimum = solveSensitivityBase(BASE)
+    if (optimum.kind !== "minimum") throw new Error("expected a minimum")
+    const envelope = BASE.hiringFee / (optimum.continuousWeek * optimum.continuousCost)
+    expect(result("hiringFee").costElasticity).toBeCloseTo(envelope, 5)
+  })
+
+  // Scaling the fee and the salary together scales every cost and leaves the
+  // optimal week alone, so their elasticities sum to 1 and 0
+  it("gives fee and salary elasticities that add up like a homogeneous cost", () => {
+    const fee = result("hiringFee")
+    const salary = result("salary")
+    expect(fee.costElasticity! + salary.costElasticity!).toBeCloseTo(1, 4)
+    expect(fee.weekElasticity! + salary.weekElasticity!).toBeCloseTo(0, 4)
+    expect(fee.weekElasticity).toBeGreaterThan(0)
+  })
+
+  it("ranks inputs by their swing in the optimal cost and leaves an interior optimum alone for the horizon", () => {
+    const results = analyzeSensitivity(BASE)
+    expect(results.map(r => r.input)).toEqual(["salary", "growth", "hiringFee", "horizon"])
+
+    const horizon = results[3]
+    expect(horizon.low).toEqual(solveSensitivityBase(BASE))
+    expect(horizon.high).toEqual(solveSensitivityBase(BASE))
+    expect(horizon.costElasticity).toBe(0)
+  })
+
+  it("reports no elasticities when the horizon cuts the search short of the optimum", () => {
+    const short = { ...BASE, horizon: 15 }
+    for (const r of analyzeSensitivity(short)) {
+      expect(r.costElasticity).toBeNull()
+      expect(r.weekElasticity).toBeNull()
+    }
+    expect(result("horizon", short).high).toMatchObject({ kind: "minimum", week: 16 })
+  })
+})
@@ -0,0 +1,102 @@
+// Sensitivity of the optimum to its inputs.
+//
+// Each input (g(ℓ), h(S,ℓ), S, horizon) is moved down and up by its own
+// percentage while the others stay at their base values, so a change in S
+// keeps the base fee rather than re-reading h at the new salary. Elasticities
+// are central differences of the continuous optimum:
+// ε = (ΔY/Y) / (ΔX/X) for a 1% step.
+
+import {
+  GrowthModel,
+  OptimalDuration,
+  OptimumSolution,
+  growthFactor,
+  solveOptimalDuration,
+} from "@/lib/cost-model"
+
+export type SensitivityInput = 'growth' | 'hiringFee' | 'salary' | 'horizon'
+
+export interface SensitivityBase {
+  hiringFee: number
+  salary: number
+  level: number
+  growth: GrowthModel
+  horizon: number
+}
+
+export interface SensitivityResult {
+  input: SensitivityInput
+  label: string
+  change: number // Fraction the input is moved by in each direction
+  low: OptimumSolution
+  high: OptimumSolution
+  costElasticity: number | null // null when the optimum is missing at or around the base
+  weekElasticity: number | null
+}
+
+export const SENSITIVITY_INPUTS: { input: SensitivityInput; label: string }[] = [
+  { input: 'growth', label: 'Growth g(ℓ)' },
+  { input: 'hiringFee', label: 'Hiring fee h(S,ℓ)' },
+  { input: 'salary', label: 'Starting salary S' },
+  { input: 'horizon', label: 'Horizon' },
+]
+
+export const DEFAULT_SENSITIVITY_CHANGES: Record<SensitivityInput, number> = {
+  growth: 0.1,
+  hiringFee: 0.1,
+  salary: 0.1,
+  horizon: 0.2,
+}
+
+const ELASTICITY_STEP = 0.01
+
+// The base with one input scaled by `factor`
+export function scaleInput(base: SensitivityBase, input: SensitivityInput, factor: number): SensitivityBase {
+  if (input === 'growth') {
+    const g = growthFactor(base.level, base.growth)
+    return { ...base, growth: { ...base.growth, rates: { ...base.growth.rates, [base.level]: g * factor } } }
+  }
+  if (input === 'hiringFee') return { ...base, hiringFee: base.hiringFee * factor }
+  if (input === 'salary') return { ...base, salary: base.salary * factor }
+  return { ...base, horizon: Math.max(1, Math.round(base.horizon * factor)) }
+}
+
+export function solveSensitivityBase(base: SensitivityBase): OptimumSolution {
+  return solveOptimalDuration(base.hiringFee, base.salary, base.level, base.growth, base.horizon)
+}
+
+function elasticity(base: SensitivityBase, input: SensitivityInput, value: (optimum: OptimalDuration) => number): number | null {
+  const optima: OptimalDuration[] = []
+  for (const factor of [1 - ELASTICITY_STEP, 1, 1 + ELASTICITY_STEP]) {
+    const solution = solveSensitivityBase(scaleInput(base, input, factor))
+    if (solution.kind !== 'minimum') return null
+    optima.push(solution)
+  }
+  const [down, center, up] = optima.map(value)
+  return center === 0 ? null : (up - down) / (2 * ELASTICITY_STEP * center)
+}
+
+// Results sorted by their effect on the optimal cost, largest first
+export function analyzeSensitivity(
+  base: SensitivityBase,
+  changes: Record<SensitivityInput, number> = DEFAULT_SENSITIVITY_CHANGES,
+): SensitivityResult[] {
+  const baseSolution = solveSensitivityBase(base)
+  const swing = (result: SensitivityResult) => {
+    if (baseSolution.kind !== 'minimum') return 0
+    const costs = [result.low, result.high].map(s => (s.kind === 'minimum' ? s.cost : baseSolution.cost))
+    return Math.abs(costs[1] - costs[0])
+  }
+
+  return SENSITIVITY_INPUTS
+    .map(({ input, label }) => ({
+      input,
+      label,
+      change: changes[input],
+      low: solveSensitivityBase(scaleInput(base, input, 1 - changes[input])),
+      high: solveSensitivityBase(scaleInput(base, input, 1 + changes[input])),
+      costElasticity: elasticity(base, input, s => s.continuousCost),
+      weekElasticity: elasticity(base, input, s => s.continuousWeek),
+    }))
+    .sort((a, b) => swing(b) - swing(a))
+}
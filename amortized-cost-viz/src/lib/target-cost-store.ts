@@ -0,0 +1,21 @@
+// Per-level target costs of the max hiring fee chart, persisted like the growth model.
+
+import { createPersistentStore } from "@/lib/persistent-store"
+import { TargetCostSettings, isTargetCostSettings } from "@/lib/target-costs"
+
+export const TARGET_COSTS_STORAGE_KEY = "bb-staff:target-costs"
+export const TARGET_COSTS_SCHEMA_VERSION = 1
+
+const store = createPersistentStore<TargetCostSettings>({
+  key: TARGET_COSTS_STORAGE_KEY,
+  version: TARGET_COSTS_SCHEMA_VERSION,
+  initial: {},
+  migrations: {},
+  isValid: isTargetCostSettings,
+})
+
+export const getTargetCosts = store.get
+export const getServerTargetCosts = store.getServer
+export const setTargetCosts = store.set
+export const resetTargetCosts = store.reset
+export const subscribeTargetCosts = store.subscribe
@@ -0,0 +1,57 @@
+// Target weekly costs drawn as lines on the max hiring fee chart.
+//
+// Each level keeps its own list. A level the user has not edited uses the
+// level registry's targets when it has them, otherwise targets generated
+// from the market data: percentiles of the optimal cost achievable across
+// the level's salary range.
+
+import { GrowthModel, HiringCostFormula, findAmortizedCostMinimum } from "@/lib/cost-model"
+import { LevelRegistry, levelDefinition } from "@/lib/levels"
+import { SalaryRange, salarySweep } from "@/lib/roles"
+import { percentiles } from "@/lib/uncertainty"
+
+export interface TargetCostSettings {
+  [level: number]: number[] // Ascending, without duplicates
+}
+
+// Generated targets are rounded to this many dollars
+const TARGET_ROUNDING = 100
+
+// Shape check for settings read from storage or a share link
+export function isTargetCostSettings(value: unknown): value is TargetCostSettings {
+  return !!value
+    && typeof value === "object"
+    && Object.values(value).every(costs => Array.isArray(costs) && costs.every(cost => typeof cost === "number"))
+}
+
+export function normalizeTargetCosts(costs: number[]): number[] {
+  return [...new Set(costs.filter(cost => Number.isFinite(cost) && cost > 0).map(Math.round))].sort((a, b) => a - b)
+}
+
+// p5, p25, p50, p75 and p95 of the optimal cost across the range; empty without any optimum
+export function autoTargetCosts(
+  range: SalaryRange,
+  level: number,
+  formula: HiringCostFormula,
+  growth: GrowthModel,
+  step: number = 200,
+): number[] {
+  const costs = salarySweep(range, step)
+    .map(salary => findAmortizedCostMinimum(salary, level, formula, growth)?.cost)
+    .filter((cost): cost is number => cost !== undefined)
+  if (costs.length === 0) return []
+
+  const { p5, p25, p50, p75, p95 } = percentiles(costs)
+  return normalizeTargetCosts([p5, p25, p50, p75, p95].map(cost => Math.round(cost / TARGET_ROUNDING) * TARGET_ROUNDING))
+}
+
+// The user's targets, else the registry's, else `auto` (generated from the market data)
+export function levelTargetCosts(
+  settings: TargetCostSettings,
+  level: number,
+  registry: LevelRegistry,
+  auto: () => number[],
+): number[] {
+  const defaults = levelDefinition(level, registry).targetCosts
+  return settings[level] ?? (defaults.length > 0 ? defaults : auto())
+}
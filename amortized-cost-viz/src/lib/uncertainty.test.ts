@@ -0,0 +1,83 @@
+// Monte Carlo fee sampling: reproducible, unchanged without a spread, and
+// centred on the entered fees.
+
+import { describe, expect, it } from "vitest"
+import { DEFAULT_GROWTH_MODEL, INITIAL_HIRING_DATA, MIN_HIRING_FEE, generateHiringFormula, hiringCost } from "@/lib/cost-model"
+import {
+  FeeUncertaintyData,
+  LOGISTIC_SAMPLES,
+  MONTE_CARLO_SAMPLES,
+  hasFeeUncertainty,
+  optimalWeekDistribution,
+  percentiles,
+  sampleFeeCurves,
+} from "@/lib/uncertainty"
+
+const salaries = [6000, 6500, 7000, 8000]
+
+describe("percentiles", () => {
+  it("interpolates between order statistics", () => {
+    const values = Array.from({ length: 101 }, (_, i) => 100 - i)
+    expect(percentiles(values)).toEqual({ p5: 5, p25: 25, p50: 50, p75: 75, p95: 95 })
+    expect(percentiles([1, 2])).toMatchObject({ p50: 1.5 })
+  })
+})
+
+describe("sampleFeeCurves", () => {
+  const uncertainty: FeeUncertaintyData = {
+    3: { 6000: { kind: "sd", amount: 5000 }, 7000: { kind: "range", amount: 4000 } },
+  }
+
+  it("repeats the market curve when no point has a spread", () => {
+    const formula = generateHiringFormula(INITIAL_HIRING_DATA)
+    const curves = sampleFeeCurves(INITIAL_HIRING_DATA, {}, 3, "interpolated", salaries)
+    expect(hasFeeUncertainty({}, 3)).toBe(false)
+    expect(curves).toHaveLength(MONTE_CARLO_SAMPLES)
+    for (const curve of curves) expect(curve).toEqual(salaries.map(salary => hiringCost(salary, 3, formula)))
+  })
+
+  it("gives the same samples for the same data", () => {
+    expect(hasFeeUncertainty(uncertainty, 3)).toBe(true)
+    const first = sampleFeeCurves(INITIAL_HIRING_DATA, uncertainty, 3, "interpolated", salaries)
+    expect(sampleFeeCurves(INITIAL_HIRING_DATA, uncertainty, 3, "interpolated", salaries)).toEqual(first)
+  })
+
+  it("keeps range noise inside the range and centres the samples on the entered fees", () => {
+    const curves = sampleFeeCurves(INITIAL_HIRING_DATA, uncertainty, 3, "interpolated", salaries)
+    const at6000 = curves.map(curve => curve[0])
+    const at7000 = curves.map(curve => curve[2])
+
+    expect(Math.min(...at7000)).toBeGreaterThanOrEqual(6000)
+    expect(Math.max(...at7000)).toBeLessThanOrEqual(14000)
+    expect(Math.min(...at6000)).toBeGreaterThanOrEqual(MIN_HIRING_FEE)
+    expect(new Set(at6000).size).toBeGreaterThan(MONTE_CARLO_SAMPLES / 2)
+
+    // Within three standard errors of the entered fee
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+    expect(Math.abs(mean(at6000) - 30000)).toBeLessThan(3 * 5000 / Math.sqrt(MONTE_CARLO_SAMPLES))
+    expect(Math.abs(mean(at7000) - 10000)).toBeLessThan(3 * 4000 / Math.sqrt(3 * MONTE_CARLO_SAMPLES))
+  })
+
+  it("draws fewer samples for the logistic fit", () => {
+    expect(sampleFeeCurves(INITIAL_HIRING_DATA, uncertainty, 3, "logistic", salaries)).toHaveLength(LOGISTIC_SAMPLES)
+  })
+})
+
+describe("optimalWeekDistribution", () => {
+  it("counts every sample once, in the histogram or as having no minimum", () => {
+    const fees = [1000, 30000, 30000, 50000, 5000000]
+    const distribution = optimalWeekDistribution(fees, 6000, 3, DEFAULT_GROWTH_MODEL, 104)
+    const counted = distribution.histogram.reduce((sum, bar) => sum + bar.count, 0)
+
+    expect(distribution.samples).toBe(5)
+    expect(distribution.noMinimum).toBe(1)
+    expect(counted).toBe(4)
+    expect(distribution.histogram.map(bar => bar.week)).toEqual([...distribution.histogram.map(bar => bar.week)].sort((a, b) => a - b))
+    expect(distribution.histogram.find(bar => bar.count === 2)).toBeDefined()
+  })
+
+  it("has no percentiles when no sample has a minimum", () => {
+    const flat = { ...DEFAULT_GROWTH_MODEL, rates: { 3: 0 } }
+    expect(optimalWeekDistribution([30000], 6000, 3, flat)).toMatchObject({ percentiles: null, noMinimum: 1 })
+  })
+})
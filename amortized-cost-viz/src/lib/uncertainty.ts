@@ -0,0 +1,152 @@
+// Hiring-fee uncertainty and Monte Carlo sampling.
+//
+// A fee point may carry a spread: a standard deviation (normal noise) or a
+// ± range (uniform noise). Each sample perturbs every point of a level,
+// rebuilds the level's fee model and evaluates it at the salaries a chart
+// needs. Amortized cost and the optimum depend on the fee only through h,
+// so the charts derive their percentile bands from these sampled fees.
+
+import {
+  GrowthModel,
+  HiringCostData,
+  MIN_HIRING_FEE,
+  OPTIMIZATION_HORIZON,
+  generateHiringFormula,
+  hiringCost,
+  solveOptimalDuration,
+} from "@/lib/cost-model"
+import { HiringFeeModel } from "@/lib/fee-models"
+
+export type FeeSpreadKind = 'sd' | 'range'
+
+export interface FeeSpread {
+  kind: FeeSpreadKind
+  amount: number // sd: one standard deviation; range: ± half-width, in $
+}
+
+export interface FeeUncertaintyData {
+  [level: number]: { [salary: number]: FeeSpread }
+}
+
+export interface Percentiles {
+  p5: number
+  p25: number
+  p50: number
+  p75: number
+  p95: number
+}
+
+export interface OptimalWeekDistribution {
+  percentiles: Percentiles | null // Over the samples that have a minimum
+  histogram: { week: number; count: number }[]
+  noMinimum: number // Samples without a minimum within the horizon
+  samples: number
+}
+
+export const MONTE_CARLO_SAMPLES = 200
+
+// The logistic fit is a nested grid search, so fewer samples keep it responsive
+export const LOGISTIC_SAMPLES = 50
+
+// Fixed seed: the same data always gives the same bands
+const MONTE_CARLO_SEED = 20240601
+
+export function hasFeeUncertainty(uncertainty: FeeUncertaintyData, level: number): boolean {
+  return Object.values(uncertainty[level] ?? {}).some(spread => spread.amount > 0)
+}
+
+export function describeFeeSpread(spread: FeeSpread): string {
+  return spread.kind === 'sd'
+    ? `σ $${Math.round(spread.amount).toLocaleString()}`
+    : `±$${Math.round(spread.amount).toLocaleString()}`
+}
+
+// mulberry32: small, fast and seedable
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function sampleNoise(spread: FeeSpread, random: () => number): number {
+  if (spread.kind === 'range') return (random() * 2 - 1) * spread.amount
+  // Box-Muller
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v) * spread.amount
+}
+
+// Linear interpolation between order statistics
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const low = Math.floor(position)
+  const high = Math.ceil(position)
+  return sorted[low] + (sorted[high] - sorted[low]) * (position - low)
+}
+
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    p5: quantile(sorted, 0.05),
+    p25: quantile(sorted, 0.25),
+    p50: quantile(sorted, 0.5),
+    p75: quantile(sorted, 0.75),
+    p95: quantile(sorted, 0.95),
+  }
+}
+
+// Sampled fees h(S,ℓ) at each salary: result[sample][salaryIndex]
+export function sampleFeeCurves(
+  data: HiringCostData,
+  uncertainty: FeeUncertaintyData,
+  level: number,
+  model: HiringFeeModel,
+  salaries: number[],
+): number[][] {
+  const levelData = data[level] ?? {}
+  const spreads = uncertainty[level] ?? {}
+  const random = createRandom(MONTE_CARLO_SEED + level)
+  const samples = model === 'logistic' ? LOGISTIC_SAMPLES : MONTE_CARLO_SAMPLES
+
+  return Array.from({ length: samples }, () => {
+    const sampled: HiringCostData[number] = {}
+    for (const [salary, fee] of Object.entries<number | null>(levelData)) {
+      if (fee === null) continue
+      const spread = spreads[Number(salary)]
+      sampled[Number(salary)] = spread ? Math.max(MIN_HIRING_FEE, fee + sampleNoise(spread, random)) : fee
+    }
+    const formula = generateHiringFormula({ [level]: sampled }, { [level]: model })
+    return salaries.map(salary => hiringCost(salary, level, formula))
+  })
+}
+
+export function optimalWeekDistribution(
+  fees: number[],
+  salary: number,
+  level: number,
+  growth: GrowthModel,
+  horizon: number = OPTIMIZATION_HORIZON,
+): OptimalWeekDistribution {
+  const weeks: number[] = []
+  let noMinimum = 0
+  for (const fee of fees) {
+    const solution = solveOptimalDuration(fee, salary, level, growth, horizon)
+    if (solution.kind === 'minimum') weeks.push(solution.week)
+    else noMinimum++
+  }
+
+  const counts = new Map<number, number>()
+  for (const week of weeks) counts.set(week, (counts.get(week) ?? 0) + 1)
+
+  return {
+    percentiles: weeks.length > 0 ? percentiles(weeks) : null,
+    histogram: [...counts.entries()].map(([week, count]) => ({ week, count })).sort((a, b) => a.week - b.week),
+    noMinimum,
+    samples: fees.length,
+  }
+}
@@ -9,20 +9,50 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as ValueForMoneyRouteImport } from './routes/value-for-money'
 import { Route as SalaryComparisonRouteImport } from './routes/salary-comparison'
+import { Route as RosterRouteImport } from './routes/roster'
 import { Route as MaxHiringFeeRouteImport } from './routes/max-hiring-fee'
+import { Route as MarketDataRouteImport } from './routes/market-data'
+import { Route as KeepOrReplaceRouteImport } from './routes/keep-or-replace'
+import { Route as HeatmapRouteImport } from './routes/heatmap'
 import { Route as IndexRouteImport } from './routes/index'
 
+const ValueForMoneyRoute = ValueForMoneyRouteImport.update({
+  id: '/value-for-money',
+  path: '/value-for-money',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SalaryComparisonRoute = SalaryComparisonRouteImport.update({
   id: '/salary-comparison',
   path: '/salary-comparison',
   getParentRoute: () => rootRouteImport,
 } as any)
+const RosterRoute = RosterRouteImport.update({
+  id: '/roster',
+  path: '/roster',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const MaxHiringFeeRoute = MaxHiringFeeRouteImport.update({
   id: '/max-hiring-fee',
   path: '/max-hiring-fee',
   getParentRoute: () => rootRouteImport,
 } as any)
+const MarketDataRoute = MarketDataRouteImport.update({
+  id: '/market-data',
+  path: '/market-data',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const KeepOrReplaceRoute = KeepOrReplaceRouteImport.update({
+  id: '/keep-or-replace',
+  path: '/keep-or-replace',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const HeatmapRoute = HeatmapRouteImport.update({
+  id: '/heatmap',
+  path: '/heatmap',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -31,36 +61,88 @@ const IndexRoute = IndexRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/heatmap': typeof HeatmapRoute
+  '/keep-or-replace': typeof KeepOrReplaceRoute
+  '/market-data': typeof MarketDataRoute
   '/max-hiring-fee': typeof MaxHiringFeeRoute
+  '/roster': typeof RosterRoute
   '/salary-comparison': typeof SalaryComparisonRoute
+  '/value-for-money': typeof ValueForMoneyRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/heatmap': typeof HeatmapRoute
+  '/keep-or-replace': typeof KeepOrReplaceRoute
+  '/market-data': typeof MarketDataRoute
   '/max-hiring-fee': typeof MaxHiringFeeRoute
+  '/roster': typeof RosterRoute
   '/salary-comparison': typeof SalaryComparisonRoute
+  '/value-for-money': typeof ValueForMoneyRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/heatmap': typeof HeatmapRoute
+  '/keep-or-replace': typeof KeepOrReplaceRoute
+  '/market-data': typeof MarketDataRoute
   '/max-hiring-fee': typeof MaxHiringFeeRoute
+  '/roster': typeof RosterRoute
   '/salary-comparison': typeof SalaryComparisonRoute
+  '/value-for-money': typeof ValueForMoneyRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/max-hiring-fee' | '/salary-comparison'
+  fullPaths:
+    | '/'
+    | '/heatmap'
+    | '/keep-or-replace'
+    | '/market-data'
+    | '/max-hiring-fee'
+    | '/roster'
+    | '/salary-comparison'
+    | '/value-for-money'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/max-hiring-fee' | '/salary-comparison'
-  id: '__root__' | '/' | '/max-hiring-fee' | '/salary-comparison'
+  to:
+    | '/'
+    | '/heatmap'
+    | '/keep-or-replace'
+    | '/market-data'
+    | '/max-hiring-fee'
+    | '/roster'
+    | '/salary-comparison'
+    | '/value-for-money'
+  id:
+    | '__root__'
+    | '/'
+    | '/heatmap'
+    | '/keep-or-replace'
+    | '/market-data'
+    | '/max-hiring-fee'
+    | '/roster'
+    | '/salary-comparison'
+    | '/value-for-money'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  HeatmapRoute: typeof HeatmapRoute
+  KeepOrReplaceRoute: typeof KeepOrReplaceRoute
+  MarketDataRoute: typeof MarketDataRoute
   MaxHiringFeeRoute: typeof MaxHiringFeeRoute
+  RosterRoute: typeof RosterRoute
   SalaryComparisonRoute: typeof SalaryComparisonRoute
+  ValueForMoneyRoute: typeof ValueForMoneyRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/value-for-money': {
+      id: '/value-for-money'
+      path: '/value-for-money'
+      fullPath: '/value-for-money'
+      preLoaderRoute: typeof ValueForMoneyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/salary-comparison': {
       id: '/salary-comparison'
       path: '/salary-comparison'
@@ -68,6 +150,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SalaryComparisonRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/roster': {
+      id: '/roster'
+      path: '/roster'
+      fullPath: '/roster'
+      preLoaderRoute: typeof RosterRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/max-hiring-fee': {
       id: '/max-hiring-fee'
       path: '/max-hiring-fee'
@@ -75,6 +164,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof MaxHiringFeeRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/market-data': {
+      id: '/market-data'
+      path: '/market-data'
+      fullPath: '/market-data'
+      preLoaderRoute: typeof MarketDataRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/keep-or-replace': {
+      id: '/keep-or-replace'
+      path: '/keep-or-replace'
+      fullPath: '/keep-or-replace'
+      preLoaderRoute: typeof KeepOrReplaceRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/heatmap': {
+      id: '/heatmap'
+      path: '/heatmap'
+      fullPath: '/heatmap'
+      preLoaderRoute: typeof HeatmapRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -87,8 +197,13 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  HeatmapRoute: HeatmapRoute,
+  KeepOrReplaceRoute: KeepOrReplaceRoute,
+  MarketDataRoute: MarketDataRoute,
   MaxHiringFeeRoute: MaxHiringFeeRoute,
+  RosterRoute: RosterRoute,
   SalaryComparisonRoute: SalaryComparisonRoute,
+  ValueForMoneyRoute: ValueForMoneyRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -0,0 +1,44 @@
+// src/routes/heatmap.tsx
+import { createFileRoute } from '@tanstack/react-router'
+import { HeatmapChart } from '@/components/HeatmapChart'
+import { RouteNav } from '@/components/RouteNav'
+import { ShareLinkButton, SharedDataBanner } from '@/components/ShareLink'
+import { HeatmapParams, ParamsChangeOptions, validateHeatmapSearch } from '@/lib/search-params'
+
+export const Route = createFileRoute('/heatmap')({
+  validateSearch: validateHeatmapSearch,
+  component: Heatmap,
+})
+
+function Heatmap() {
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+
+  const updateParams = (changes: Partial<HeatmapParams>, options?: ParamsChangeOptions) => {
+    navigate({ search: prev => ({ ...prev, ...changes }), replace: options?.replace })
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Optimal Cost Heatmap</h1>
+            <p className="text-muted-foreground">
+              Optimal weekly cost across every level and a salary range, with a budget contour
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <ShareLinkButton />
+            <RouteNav current="/heatmap" role={search.role} data={search.data} />
+          </div>
+        </div>
+      </div>
+      <SharedDataBanner
+        data={search.data}
+        onClose={() => navigate({ search: prev => ({ ...prev, data: undefined }) })}
+      />
+      <HeatmapChart params={search} onParamsChange={updateParams} />
+    </div>
+  )
+}
@@ -1,13 +1,23 @@
 // src/routes/index.tsx
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { createFileRoute } from '@tanstack/react-router'
 import { AmortizedCostChart } from '@/components/AmortizedCostChart'
-import { Button } from '@/components/ui/button'
+import { RouteNav } from '@/components/RouteNav'
+import { ShareLinkButton, SharedDataBanner } from '@/components/ShareLink'
+import { AmortizedCostParams, ParamsChangeOptions, validateAmortizedCostSearch } from '@/lib/search-params'
 
 export const Route = createFileRoute('/')({
+  validateSearch: validateAmortizedCostSearch,
   component: Home,
 })
 
 function Home() {
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+
+  const updateParams = (changes: Partial<AmortizedCostParams>, options?: ParamsChangeOptions) => {
+    navigate({ search: prev => ({ ...prev, ...changes }), replace: options?.replace })
+  }
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="mb-8">
@@ -19,20 +29,16 @@ function Home() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Link to="/max-hiring-fee">
-              <Button variant="outline">
-                Max Hiring Fee
-              </Button>
-            </Link>
-            <Link to="/salary-comparison">
-              <Button variant="outline">
-                Compare Salaries
-              </Button>
-            </Link>
+            <ShareLinkButton />
+            <RouteNav current="/" role={search.role} level={search.level} data={search.data} />
           </div>
         </div>
       </div>
-      <AmortizedCostChart />
+      <SharedDataBanner
+        data={search.data}
+        onClose={() => navigate({ search: prev => ({ ...prev, data: undefined }) })}
+      />
+      <AmortizedCostChart params={search} onParamsChange={updateParams} />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+// src/routes/keep-or-replace.tsx
+import { createFileRoute } from '@tanstack/react-router'
+import { KeepOrReplaceChart } from '@/components/KeepOrReplaceChart'
+import { RouteNav } from '@/components/RouteNav'
+import { ShareLinkButton, SharedDataBanner } from '@/components/ShareLink'
+import { KeepOrReplaceParams, ParamsChangeOptions, validateKeepOrReplaceSearch } from '@/lib/search-params'
+
+export const Route = createFileRoute('/keep-or-replace')({
+  validateSearch: validateKeepOrReplaceSearch,
+  component: KeepOrReplace,
+})
+
+function KeepOrReplace() {
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+
+  const updateParams = (changes: Partial<KeepOrReplaceParams>, options?: ParamsChangeOptions) => {
+    navigate({ search: prev => ({ ...prev, ...changes }), replace: options?.replace })
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Keep or Replace</h1>
+            <p className="text-muted-foreground">
+              Decide whether to keep a staff member you already employ or replace them at the market optimum
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <ShareLinkButton />
+            <RouteNav current="/keep-or-replace" role={search.role} level={search.level} data={search.data} />
+          </div>
+        </div>
+      </div>
+      <SharedDataBanner
+        data={search.data}
+        onClose={() => navigate({ search: prev => ({ ...prev, data: undefined }) })}
+      />
+      <KeepOrReplaceChart params={search} onParamsChange={updateParams} />
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+// src/routes/market-data.tsx
+import { createFileRoute } from '@tanstack/react-router'
+import { MarketDataEditor } from '@/components/MarketDataEditor'
+import { RouteNav } from '@/components/RouteNav'
+import { MarketDataParams, ParamsChangeOptions, validateMarketDataSearch } from '@/lib/search-params'
+
+export const Route = createFileRoute('/market-data')({
+  validateSearch: validateMarketDataSearch,
+  component: MarketDataPage,
+})
+
+function MarketDataPage() {
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+
+  const updateParams = (changes: Partial<MarketDataParams>, options?: ParamsChangeOptions) => {
+    navigate({ search: prev => ({ ...prev, ...changes }), replace: options?.replace })
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Market Data</h1>
+            <p className="text-muted-foreground">
+              Shape each level's hiring fee curve directly: add, drag and remove points at any salary
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <RouteNav current="/market-data" role={search.role} level={search.level} />
+          </div>
+        </div>
+      </div>
+      <MarketDataEditor params={search} onParamsChange={updateParams} />
+    </div>
+  )
+}
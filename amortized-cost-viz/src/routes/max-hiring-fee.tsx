@@ -1,13 +1,23 @@
 // src/routes/max-hiring-fee.tsx
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { createFileRoute } from '@tanstack/react-router'
 import { MaxHiringFeeChart } from '@/components/MaxHiringFeeChart'
-import { Button } from '@/components/ui/button'
+import { RouteNav } from '@/components/RouteNav'
+import { ShareLinkButton, SharedDataBanner } from '@/components/ShareLink'
+import { MaxHiringFeeParams, ParamsChangeOptions, validateMaxHiringFeeSearch } from '@/lib/search-params'
 
 export const Route = createFileRoute('/max-hiring-fee')({
+  validateSearch: validateMaxHiringFeeSearch,
   component: MaxHiringFee,
 })
 
 function MaxHiringFee() {
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+
+  const updateParams = (changes: Partial<MaxHiringFeeParams>, options?: ParamsChangeOptions) => {
+    navigate({ search: prev => ({ ...prev, ...changes }), replace: options?.replace })
+  }
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="mb-8">
@@ -19,20 +29,16 @@ function MaxHiringFee() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Link to="/salary-comparison">
-              <Button variant="outline" size="sm">
-                Salary Compare
-              </Button>
-            </Link>
-            <Link to="/">
-              <Button variant="outline" size="sm">
-                Time Analysis
-              </Button>
-            </Link>
+            <ShareLinkButton />
+            <RouteNav current="/max-hiring-fee" role={search.role} level={search.level} data={search.data} />
           </div>
         </div>
       </div>
-      <MaxHiringFeeChart />
+      <SharedDataBanner
+        data={search.data}
+        onClose={() => navigate({ search: prev => ({ ...prev, data: undefined }) })}
+      />
+      <MaxHiringFeeChart params={search} onParamsChange={updateParams} />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+// src/routes/roster.tsx
+import { createFileRoute } from '@tanstack/react-router'
+import { StaffRoster } from '@/components/StaffRoster'
+import { RouteNav } from '@/components/RouteNav'
+
+export const Route = createFileRoute('/roster')({
+  component: RosterPage,
+})
+
+function RosterPage() {
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Staff Roster</h1>
+            <p className="text-muted-foreground">
+              Track every staff member you employ: current salaries, cost so far and when to replace each one
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <RouteNav current="/roster" />
+          </div>
+        </div>
+      </div>
+      <StaffRoster />
+    </div>
+  )
+}
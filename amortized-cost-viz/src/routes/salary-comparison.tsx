@@ -1,13 +1,23 @@
 // src/routes/salary-comparison.tsx
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { createFileRoute } from '@tanstack/react-router'
 import { SalaryComparisonChart } from '@/components/SalaryComparisonChart'
-import { Button } from '@/components/ui/button'
+import { RouteNav } from '@/components/RouteNav'
+import { ShareLinkButton, SharedDataBanner } from '@/components/ShareLink'
+import { SalaryComparisonParams, ParamsChangeOptions, validateSalaryComparisonSearch } from '@/lib/search-params'
 
 export const Route = createFileRoute('/salary-comparison')({
+  validateSearch: validateSalaryComparisonSearch,
   component: SalaryComparison,
 })
 
 function SalaryComparison() {
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+
+  const updateParams = (changes: Partial<SalaryComparisonParams>, options?: ParamsChangeOptions) => {
+    navigate({ search: prev => ({ ...prev, ...changes }), replace: options?.replace })
+  }
+
   return (
     <div className="container mx-auto py-8 px-4">
       <div className="mb-8">
@@ -19,20 +29,16 @@ function SalaryComparison() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Link to="/max-hiring-fee">
-              <Button variant="outline" size="sm">
-                Max Hiring Fee
-              </Button>
-            </Link>
-            <Link to="/">
-              <Button variant="outline" size="sm">
-                Time Analysis
-              </Button>
-            </Link>
+            <ShareLinkButton />
+            <RouteNav current="/salary-comparison" role={search.role} level={search.level} data={search.data} />
           </div>
         </div>
       </div>
-      <SalaryComparisonChart />
+      <SharedDataBanner
+        data={search.data}
+        onClose={() => navigate({ search: prev => ({ ...prev, data: undefined }) })}
+      />
+      <SalaryComparisonChart params={search} onParamsChange={updateParams} />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+// src/routes/value-for-money.tsx
+import { createFileRoute } from '@tanstack/react-router'
+import { ValueForMoneyChart } from '@/components/ValueForMoneyChart'
+import { RouteNav } from '@/components/RouteNav'
+import { ShareLinkButton, SharedDataBanner } from '@/components/ShareLink'
+import { ValueForMoneyParams, ParamsChangeOptions, validateValueForMoneySearch } from '@/lib/search-params'
+
+export const Route = createFileRoute('/value-for-money')({
+  validateSearch: validateValueForMoneySearch,
+  component: ValueForMoney,
+})
+
+function ValueForMoney() {
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+
+  const updateParams = (changes: Partial<ValueForMoneyParams>, options?: ParamsChangeOptions) => {
+    navigate({ search: prev => ({ ...prev, ...changes }), replace: options?.replace })
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Value for Money</h1>
+            <p className="text-muted-foreground">
+              Rank levels and salaries by optimal amortized cost per unit of benefit
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <ShareLinkButton />
+            <RouteNav current="/value-for-money" role={search.role} data={search.data} />
+          </div>
+        </div>
+      </div>
+      <SharedDataBanner
+        data={search.data}
+        onClose={() => navigate({ search: prev => ({ ...prev, data: undefined }) })}
+      />
+      <ValueForMoneyChart params={search} onParamsChange={updateParams} />
+    </div>
+  )
+}
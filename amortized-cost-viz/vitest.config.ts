@@ -0,0 +1,10 @@
+// vitest.config.ts
+import { defineConfig } from 'vitest/config'
+import tsConfigPaths from 'vite-tsconfig-paths'
+
+export default defineConfig({
+  plugins: [tsConfigPaths()],
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+})